@@ -0,0 +1,179 @@
+/*
+ * Service worker: keeps the app and the Accra map usable on weak or no data.
+ *
+ * - Map tiles are served cache-first and added to the cache as they are
+ *   viewed. The page registers the worker with its tile URL template
+ *   (?tiles=...), so the worker knows which requests are tiles.
+ * - The tile cache keeps the MAX_TILES tiles used most recently.
+ * - When the page asks ("precache-tiles"), tiles covering Greater Accra are
+ *   downloaded ahead of time. The page only asks for tile servers that allow
+ *   it; OpenStreetMap's tile usage policy forbids bulk downloads, so its
+ *   servers are never pre-cached from.
+ * - The app itself is network-first, falling back to the last copy cached.
+ */
+
+const TILE_CACHE = "trotro-tiles-v2"; // v2: keyed without the subdomain
+const APP_CACHE = "trotro-app-v1";
+
+const TILE_TEMPLATE =
+  new URL(self.location.href).searchParams.get("tiles") || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+// ~15 kB a tile, so a few tens of MB at most
+const MAX_TILES = 3000;
+
+// Greater Accra, south-west to north-east, at the zoom levels riders use: ~400 tiles
+const ACCRA_BOUNDS = { south: 5.5, west: -0.35, north: 5.8, east: 0.05 };
+const PRECACHE_ZOOMS = [11, 12, 13, 14];
+
+/* ---------- tile URLs ---------- */
+
+const PLACEHOLDERS = [...TILE_TEMPLATE.matchAll(/\{(\w+)\}/g)].map((m) => m[1]);
+
+// the template as a pattern capturing each placeholder, e.g. {s} → ([^./]+)
+const TILE_PATTERN = new RegExp(
+  "^" +
+    TILE_TEMPLATE.split(/\{\w+\}/)
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .reduce((acc, part, i) => {
+        const name = PLACEHOLDERS[i - 1];
+        const group = name === "s" ? "([^./]+)" : name === "r" ? "(@2x)?" : "([\\w-]+)";
+        return acc + group + part;
+      }) +
+    "$"
+);
+
+function fillTemplate(values) {
+  return TILE_TEMPLATE.replace(/\{(\w+)\}/g, (m, name) => (name in values ? values[name] : ""));
+}
+
+/**
+ * The cache key of a tile URL, or null when it is not a tile: the URL with
+ * its subdomain fixed, so a tile is found whichever server Leaflet picked.
+ */
+function tileKey(url) {
+  const m = TILE_PATTERN.exec(url);
+  if (!m) return null;
+  const values = Object.fromEntries(PLACEHOLDERS.map((name, i) => [name, m[i + 1] ?? ""]));
+  return fillTemplate({ ...values, s: "a" });
+}
+
+function tileX(lng, z) {
+  return Math.floor(((lng + 180) / 360) * 2 ** z);
+}
+
+function tileY(lat, z) {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+}
+
+/** Tile URLs covering Accra, on the subdomain Leaflet would use for each */
+function accraTileUrls() {
+  const urls = [];
+  for (const z of PRECACHE_ZOOMS) {
+    for (let x = tileX(ACCRA_BOUNDS.west, z); x <= tileX(ACCRA_BOUNDS.east, z); x++) {
+      for (let y = tileY(ACCRA_BOUNDS.north, z); y <= tileY(ACCRA_BOUNDS.south, z); y++) {
+        urls.push(fillTemplate({ s: "abc"[Math.abs(x + y) % 3], z, x, y, r: "" }));
+      }
+    }
+  }
+  return urls;
+}
+
+/* ---------- tile cache ---------- */
+
+/**
+ * Drop the least recently used tiles once the cache holds more than
+ * MAX_TILES. Cache keys come back in the order they were put, and a tile is
+ * put again each time it is used, so the first keys are the stalest.
+ */
+async function trimTiles(cache) {
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_TILES;
+  for (let i = 0; i < excess; i++) await cache.delete(keys[i]);
+}
+
+async function precacheTiles() {
+  if (/\.openstreetmap\.org\//.test(TILE_TEMPLATE)) return;
+  const cache = await caches.open(TILE_CACHE);
+  // a few at a time, to go easy on the tile server and on slow connections
+  const urls = accraTileUrls();
+  for (let i = 0; i < urls.length; i += 6) {
+    await Promise.all(
+      urls.slice(i, i + 6).map(async (url) => {
+        const key = tileKey(url);
+        if (!key || (await cache.match(key))) return;
+        try {
+          const res = await fetch(url, { mode: "cors" });
+          if (res.ok) await cache.put(key, res);
+        } catch {
+          // offline; the tile gets cached when it is first seen
+        }
+      })
+    );
+  }
+  await trimTiles(cache);
+}
+
+async function tileFirst(event, key) {
+  const cache = await caches.open(TILE_CACHE);
+  const hit = await cache.match(key);
+  // storing outlives the response, so the worker is kept alive for it
+  if (hit) {
+    // put back at the end of the cache's order: now the most recently used
+    event.waitUntil(cache.put(key, hit.clone()));
+    return hit;
+  }
+  const res = await fetch(event.request);
+  if (res.ok) event.waitUntil(cache.put(key, res.clone()).then(() => trimTiles(cache)));
+  return res;
+}
+
+/* ---------- app ---------- */
+
+async function networkFirst(request) {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const res = await fetch(request);
+    if (res.ok) cache.put(request, res.clone());
+    return res;
+  } catch (err) {
+    const hit = (await cache.match(request)) ?? (request.mode === "navigate" && (await cache.match(self.registration.scope)));
+    if (hit) return hit;
+    throw err;
+  }
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(APP_CACHE)
+      .then((cache) => cache.add(self.registration.scope))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  const keep = [TILE_CACHE, APP_CACHE];
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => !keep.includes(k)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data === "precache-tiles") event.waitUntil(precacheTiles());
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const key = tileKey(request.url);
+  if (key) {
+    event.respondWith(tileFirst(event, key));
+  } else if (request.url.startsWith(self.registration.scope)) {
+    event.respondWith(networkFirst(request));
+  }
+});
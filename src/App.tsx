@@ -1,514 +1,1080 @@
-import { useEffect, useState } from "react";
-import type { Stop, Route, PathResult } from "./types";
-import { findBestPath } from "./utils/findBestPath";
-import MapView from "./components/MapView";
-import { supabase } from "./lib/supabaseClient";
-import { haversineDistance } from "./utils/calcDistance"; 
-
-export default function App() {
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import type {
+  Stop,
+  Route,
+  Journey,
+  JourneyLeg,
+  Priority,
+  PlacePoint,
+  TripTime,
+  StopAlias,
+  FareReport,
+  RiderData,
+  SavedTrip,
+  Endpoint,
+  Language,
+  VehicleEta,
+  VehiclePosition,
+  ReachMeasure,
+} from "./types";
+import {
+  buildRoutingGraph,
+  DEFAULT_REACH_BUDGETS,
+  DEFAULT_WALK_OPTIONS,
+  findBestPath,
+  findJourneyOptions,
+  findReachableStops,
+  MAX_REACH_BUDGETS,
+  reachCost,
+} from "./utils/routingEngine";
+import { buildJourney } from "./utils/buildJourney";
+import MapView, { type MapLeg } from "./components/MapView";
+import JourneyCard from "./components/JourneyCard";
+import StopPicker from "./components/StopPicker";
+import NetworkOverview from "./components/NetworkOverview";
+import RiderPanel from "./components/RiderPanel";
+import VehicleLayer from "./components/VehicleLayer";
+import ReachabilityLayer from "./components/ReachabilityLayer";
+import ReachPanel from "./components/ReachPanel";
+import TripGuide from "./components/TripGuide";
+import { loadNetwork, type NetworkOrigin } from "./lib/networkCache";
+import type { NetworkSource } from "./lib/networkSource";
+import { supabaseNetworkSource } from "./lib/supabaseNetworkSource";
+import { fetchRecentFareReports, submitFareReport } from "./lib/fareReportStore";
+import { currentUser, onUserChange } from "./lib/auth";
+import { defaultVehicleFeed, type VehicleFeed } from "./lib/vehicleFeed";
+import {
+  clearDeviceRiderData,
+  fetchAccountRiderData,
+  readDeviceRiderData,
+  saveAccountRiderData,
+  writeDeviceRiderData,
+} from "./lib/riderStore";
+import { nearestStops } from "./utils/nearestStops";
+import { bestStopMatch, buildStopIndex, searchStops } from "./utils/stopSearch";
+import { buildFareEstimates } from "./utils/fareReports";
+import { addRecentSearch, EMPTY_RIDER_DATA, mergeRiderData } from "./utils/riderData";
+import { decodeSharedSearch, encodeSharedSearch, type SharedSearch } from "./utils/shareLink";
+import { exportGtfs, zipGtfs } from "./utils/gtfs";
+import { nextArrival, vehicleEta, VEHICLE_STALE_MS } from "./utils/vehicleEta";
+import { createI18n, LANGUAGE_CODES, LANGUAGE_NAMES, localStopNames, saveLanguage, savedLanguage } from "./utils/i18n";
+import { I18nContext } from "./utils/useI18n";
+import { DEFAULT_FARE_CONTEXT, type FareContext, type PassengerType } from "./utils/fareRules";
+import { defaultLocationProvider, type LocationProvider } from "./lib/geolocation";
+import { cachedProvider, defaultRoutingProvider, type RoutingProvider } from "./lib/routingProviders";
+
+const defaultLocation = defaultLocationProvider();
+const defaultNetwork = supabaseNetworkSource();
+const defaultRouting = cachedProvider(defaultRoutingProvider());
+const defaultVehicles = defaultVehicleFeed();
+
+// whose saved places are in state: this device's, or a signed-in user's
+const DEVICE = "device";
+
+/** "Leave at" / "Arrive by" today at a clock time like "07:30"; undefined for now */
+function tripTimeFor(mode: "now" | "leaveAt" | "arriveBy", clock: string): TripTime | undefined {
+  if (mode === "now") return undefined;
+  const [h, m] = clock.split(":").map(Number);
+  const at = new Date();
+  at.setHours(h, m, 0, 0);
+  return mode === "leaveAt" ? { leaveAt: at.getTime() } : { arriveBy: at.getTime() };
+}
+
+interface AppProps {
+  locationProvider?: LocationProvider; // injectable so location can be faked in tests
+  networkSource?: NetworkSource;       // likewise for stops and routes
+  routingProvider?: RoutingProvider;   // and for road lines on the map
+  vehicleFeed?: VehicleFeed;           // and for live trotro positions
+}
+
+export default function App({
+  locationProvider = defaultLocation,
+  networkSource = defaultNetwork,
+  routingProvider = defaultRouting,
+  vehicleFeed = defaultVehicles,
+}: AppProps) {
   const [stops, setStops] = useState<Stop[]>([]);
   const [routes, setRoutes] = useState<Route[]>([]);
   const [from, setFrom] = useState<string>("");
   const [to, setTo] = useState<string>("");
-  const [priority, setPriority] = useState<"fare" | "distance" | "stops">("fare");
-  const [, setResult] = useState<PathResult | null>(null);
-  const [coordsPath, setCoordsPath] = useState<[number, number][]>([]);
-  const [useRoadRouting, setUseRoadRouting] = useState<boolean>(false);
+  // the stop picked for each end, kept while its text is unchanged; names need not be unique
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [priority, setPriority] = useState<Priority>("fare");
+  const [showAlternatives, setShowAlternatives] = useState<boolean>(false);
+  const [timeMode, setTimeMode] = useState<"now" | "leaveAt" | "arriveBy">("now");
+  const [clockTime, setClockTime] = useState<string>("07:30");
+  const [fareContext, setFareContext] = useState<FareContext>(DEFAULT_FARE_CONTEXT);
+  const [results, setResults] = useState<Journey[]>([]);
+  const [selectedJourneyId, setSelectedJourneyId] = useState<string | null>(null);
+  const [searched, setSearched] = useState<boolean>(false);
+  const [useRoadRouting, setUseRoadRouting] = useState<boolean>(routingProvider.id !== "straight");
+  const [walkRadiusKm, setWalkRadiusKm] = useState<number>(DEFAULT_WALK_OPTIONS.radiusKm);
+
+  // ✅ Places off the network: GPS position or a tap on the map
+  const [fromPlace, setFromPlace] = useState<PlacePoint | null>(null);
+  const [toPlace, setToPlace] = useState<PlacePoint | null>(null);
+  const [pickOnMap, setPickOnMap] = useState<"from" | "to" | null>(null);
+  const [locating, setLocating] = useState<boolean>(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [userCoords, setUserCoords] = useState<[number, number] | null>(null);
+  const [aliases, setAliases] = useState<StopAlias[]>([]);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  // ✅ Fares riders report paying
+  const [fareReports, setFareReports] = useState<FareReport[]>([]);
+  const [useReportedFares, setUseReportedFares] = useState<boolean>(false);
 
-  // ✅ NEW states for multiple routes
-  const [matchingRoutes, setMatchingRoutes] = useState<Route[]>([]);
-  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
+  // ✅ Where the network data came from, for the offline banner
+  const [networkOrigin, setNetworkOrigin] = useState<NetworkOrigin | null>(null);
+  const [networkSavedAt, setNetworkSavedAt] = useState<number>(0);
+  const [rejectedRows, setRejectedRows] = useState<number>(0);
+  const [online, setOnline] = useState<boolean>(navigator.onLine);
+  const [showOverview, setShowOverview] = useState<boolean>(true);
+  const [reachMeasure, setReachMeasure] = useState<ReachMeasure | null>(null); // null hides the reach map
+  const [reachLimit, setReachLimit] = useState<number>(DEFAULT_REACH_BUDGETS.fare);
+
+  // ✅ Language for text, cedi amounts, distances and local stop names
+  const [language, setLanguage] = useState<Language>(() => savedLanguage());
+  const i18n = useMemo(
+    () => createI18n(language, localStopNames(stops, aliases, language)),
+    [language, stops, aliases]
+  );
+  const { t, stopName } = i18n;
 
-  // ✅ Fetch stops and routes from Supabase
   useEffect(() => {
-    const fetchStopsAndRoutes = async () => {
-      try {
-        // fetch stops
-        const { data: stopsData, error: stopsError } = await supabase
-          .from("stops")
-          .select("id, name, lat, lng")
-          .order("name", { ascending: true });
-
-        if (stopsError) throw stopsError;
-
-        const stopsMapped: Stop[] =
-          stopsData?.map((s: any) => ({
-            id: s.id,
-            name: s.name,
-            coords: [s.lat, s.lng],
-          })) ?? [];
-
-        setStops(stopsMapped);
-        setFrom(stopsMapped[0]?.name ?? "");
-        setTo(stopsMapped[1]?.name ?? "");
-
-        // fetch routes and join stop details
-        const { data: routesRes, error: routesError } = await supabase
-          .from("routes")
-          .select(`
-            id,
-            fare,
-            from_stop (id, name, lat, lng),
-            to_stop (id, name, lat, lng),
-            route_stops (
-              stop_order,
-              stops (id, name, lat, lng)
-            )
-          `);
-
-        if (routesError) throw routesError;
-
-        const routesMapped: Route[] =
-          routesRes?.map((r: any) => {
-            const fromCoords: [number, number] = [r.from_stop.lat, r.from_stop.lng];
-            const toCoords: [number, number] = [r.to_stop.lat, r.to_stop.lng];
-
-            const intermediates =
-              r.route_stops
-                ?.sort((a: any, b: any) => a.stop_order - b.stop_order)
-                .map((rs: any) => ({
-                  name: rs.stops.name,
-                  coords: [rs.stops.lat, rs.stops.lng] as [number, number],
-                })) ?? [];
-
-            return {
-              id: r.id,
-              from: r.from_stop.name,
-              to: r.to_stop.name,
-              fare: r.fare,
-              distance: haversineDistance(fromCoords, toCoords),
-              fromCoords,
-              toCoords,
-              intermediates,
-            };
-          }) ?? [];
-
-        setRoutes(routesMapped);
-      } catch (err) {
-        console.error("Error fetching data:", err);
+    document.documentElement.lang = language;
+    saveLanguage(language);
+  }, [language]);
+
+  // ✅ Guided trip along the selected journey
+  const [guiding, setGuiding] = useState<boolean>(false);
+  const [riderPosition, setRiderPosition] = useState<[number, number] | null>(null);
+
+  // ✅ Live trotros on the selected journey's routes
+  const [vehicles, setVehicles] = useState<Map<string, VehiclePosition>>(new Map());
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  // ✅ Shareable links: the search a link opened with, and the last one planned
+  const [pendingLink, setPendingLink] = useState<SharedSearch | null>(() =>
+    decodeSharedSearch(window.location.search, t("place.shared"))
+  );
+  const [lastSearch, setLastSearch] = useState<Omit<SharedSearch, "roadRouting" | "selectedId"> | null>(null);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+  // ✅ Rider account, saved places, favourite and recent trips
+  const [user, setUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState<boolean>(false);
+  const [riderData, setRiderData] = useState<RiderData>(() => readDeviceRiderData());
+  const [riderOwner, setRiderOwner] = useState<string>(DEVICE);
+  const [restoredTrip, setRestoredTrip] = useState<boolean>(pendingLink !== null); // a link beats the last search
+  const [showRider, setShowRider] = useState<boolean>(false);
+
+  // ✅ Load stops and routes: Supabase, else the local cache, else bundled data
+  useEffect(() => {
+    loadNetwork(networkSource).then((network) => {
+      setStops(network.stops);
+      setRoutes(network.routes);
+      setAliases(network.aliases);
+      setFrom(network.stops[0]?.name ?? "");
+      setFromId(network.stops[0]?.id ?? null);
+      setTo(network.stops[1]?.name ?? "");
+      setToId(network.stops[1]?.id ?? null);
+      setNetworkOrigin(network.origin);
+      setNetworkSavedAt(network.savedAt);
+      setRejectedRows(network.rejected.length);
+      if (network.rejected.length > 0) {
+        console.warn(`Skipped ${network.rejected.length} invalid rows:`);
+        console.table(network.rejected);
       }
+    });
+
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+
+    return () => {
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
     };
+  }, [networkSource]);
 
-    fetchStopsAndRoutes();
+  useEffect(() => {
+    fetchRecentFareReports()
+      .then(setFareReports)
+      .catch((err) => console.error("Error fetching fare reports:", err));
+  }, []);
 
-    if ((import.meta.env.VITE_ORS_API_KEY as string)?.length) {
-      setUseRoadRouting(true);
-    }
+  const fareEstimates = useMemo(() => buildFareEstimates(fareReports), [fareReports]);
+
+  useEffect(() => {
+    currentUser()
+      .then(setUser)
+      .catch((err) => console.error("Error reading session:", err))
+      .finally(() => setAuthChecked(true));
+    return onUserChange(setUser);
   }, []);
 
- const fetchLegFare = async (from: string, to: string): Promise<number> => {
-  const { data, error } = await supabase
-    .from("routes")
-    .select("fare, from_stop(name), to_stop(name)")
-    .eq("from_stop.name", from)
-    .eq("to_stop.name", to);
+  // ✅ On sign-in, fold what was saved on this device into the account; on sign-out, start empty
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    if (userId === null) {
+      if (riderOwner !== DEVICE) {
+        setRiderData(EMPTY_RIDER_DATA);
+        setRiderOwner(DEVICE);
+      }
+      return;
+    }
+    if (riderOwner === userId) return;
+
+    let cancelled = false;
+    fetchAccountRiderData(userId)
+      .then((account) => {
+        if (cancelled) return;
+        setRiderData((device) => mergeRiderData(account, device));
+        setRiderOwner(userId);
+        clearDeviceRiderData();
+      })
+      .catch((err) => console.error("Error fetching saved places:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, riderOwner]);
+
+  // ✅ Keep saved places wherever they belong: the account when signed in, else this device
+  useEffect(() => {
+    if (riderOwner === DEVICE) {
+      writeDeviceRiderData(riderData);
+      return;
+    }
+    saveAccountRiderData(riderOwner, riderData).catch((err) => console.error("Error saving places:", err));
+  }, [riderData, riderOwner]);
+
+  // ✅ Routing index, rebuilt only when the network data changes
+  const graph = useMemo(
+    () => buildRoutingGraph(stops, routes, { ...DEFAULT_WALK_OPTIONS, radiusKm: walkRadiusKm }),
+    [stops, routes, walkRadiusKm]
+  );
+
+  // ✅ "Leave at" / "Arrive by" today at the chosen clock time
+  const tripTime = () => tripTimeFor(timeMode, clockTime);
+  // the overview's fares are for riding at the chosen time, or now
+  const chosenTime = tripTimeFor(timeMode, clockTime);
+  const overviewFareTime = chosenTime && ("leaveAt" in chosenTime ? chosenTime.leaveAt : chosenTime.arriveBy);
+
+  // ✅ Stop search over names, aliases and landmarks
+  const stopIndex = useMemo(() => buildStopIndex(stops, routes, aliases), [stops, routes, aliases]);
+  const searchNear = userCoords ?? undefined;
+  const suggestions = (text: string) =>
+    searchStops(stopIndex, text, { near: searchNear }).filter((m) => m.stop.name !== text);
+  const resolveTyped = (text: string): Stop | null =>
+    stops.find((s) => s.name === text) ?? bestStopMatch(stopIndex, text, { near: searchNear })?.stop ?? null;
 
-  if (error) {
-    console.error("Error fetching leg fare:", error);
-    return 0;
-  }
+  const stopById = (id: string | null) => stops.find((s) => s.id === id) ?? null;
+  const stopNameById = (id: string) => stopById(id)?.name ?? null;
 
-  if (!data || data.length === 0) return 0;
+  // ✅ Plan a journey across as many routes as it takes
+  const handleFind = (link?: SharedSearch) => {
+    // a shared link brings its own ends and settings; stop ids are looked up
+    // by id first, so links outlive renamed stops
+    const linkText = (end: Endpoint) => (typeof end === "string" ? (stopNameById(end) ?? end) : end.label);
+    const linkPlace = (end: Endpoint) => (typeof end === "string" ? null : end);
+    const linkId = (end: Endpoint) => (typeof end === "string" ? end : null);
+    const query = link
+      ? {
+          from: linkText(link.from),
+          to: linkText(link.to),
+          fromId: linkId(link.from),
+          toId: linkId(link.to),
+          fromPlace: linkPlace(link.from),
+          toPlace: linkPlace(link.to),
+          priority: link.priority,
+          alternatives: link.alternatives,
+        }
+      : { from, to, fromId, toId, fromPlace, toPlace, priority, alternatives: showAlternatives };
+    if (!query.from || !query.to) return;
 
-  // pick cheapest fare among all matching routes
-  return Math.min(...data.map((d) => d.fare ?? 0));
-};
+    // a picked stop by its id; typed text by name, else the closest match
+    const fromStop = query.fromPlace ? null : (stopById(query.fromId) ?? resolveTyped(query.from));
+    const toStop = query.toPlace ? null : (stopById(query.toId) ?? resolveTyped(query.to));
+    const unknown = [
+      !query.fromPlace && !fromStop ? query.from : null,
+      !query.toPlace && !toStop ? query.to : null,
+    ].filter((t) => t !== null);
+    if (link) {
+      setFrom(query.from);
+      setTo(query.to);
+      setFromId(query.fromId);
+      setToId(query.toId);
+      setFromPlace(query.fromPlace);
+      setToPlace(query.toPlace);
+      setPriority(query.priority);
+      setShowAlternatives(query.alternatives);
+    }
+    setSearchError(
+      unknown.length > 0 ? t("status.noStop", { names: unknown.map((text) => `"${text}"`).join(", ") }) : null
+    );
+    if (unknown.length > 0) return;
+    if (fromStop) {
+      setFrom(fromStop.name);
+      setFromId(fromStop.id);
+    }
+    if (toStop) {
+      setTo(toStop.name);
+      setToId(toStop.id);
+    }
 
+    const start = query.fromPlace ?? fromStop!.id;
+    const end = query.toPlace ?? toStop!.id;
 
-const [, setLegFares] = useState<
-  { from: string; to: string; fare: number }[]
->([]);
+    const time = tripTime();
 
+    const options = { time, fares: fareContext, reportedFares: useReportedFares ? fareEstimates : undefined };
 
-// ✅ When a route is selected, compute its leg fares
-useEffect(() => {
-  const computeLegFares = async () => {
-    if (!selectedRouteId) return;
+    // either the single best path, or every trade-off worth showing
+    const found = query.alternatives
+      ? findJourneyOptions(graph, start, end, query.priority, options)
+      : [findBestPath(graph, start, end, query.priority, options)].filter((r) => r !== null);
+
+    const journeys = found
+      .map((r) => buildJourney(r, graph))
+      .filter((j) => j !== null);
+
+    setResults(journeys);
+    setSelectedJourneyId(journeys.find((j) => j.id === link?.selectedId)?.id ?? journeys[0]?.id ?? null);
+    setSearched(true);
+    setLastSearch({ from: start, to: end, priority: query.priority, alternatives: query.alternatives });
+    if (fromStop && toStop) setRiderData((d) => addRecentSearch(d, fromStop.id, toStop.id));
+  };
+
+  // ✅ Opening a shared link plans its trip as soon as the network is in
+  const latestFind = useRef(handleFind);
+  useEffect(() => {
+    latestFind.current = handleFind;
+  });
+  useEffect(() => {
+    if (!pendingLink || stops.length === 0) return;
+    setPendingLink(null);
+    setUseRoadRouting(pendingLink.roadRouting);
+    latestFind.current(pendingLink);
+  }, [pendingLink, stops.length]);
 
-    const route = matchingRoutes.find((r) => (r.id) === selectedRouteId);
-    if (!route) return;
+  // ✅ Keep the address bar in step with what is on screen, so it can be shared as is
+  const shareQuery = lastSearch
+    ? encodeSharedSearch({ ...lastSearch, roadRouting: useRoadRouting, selectedId: selectedJourneyId ?? undefined })
+    : null;
+  useEffect(() => {
+    if (!shareQuery) return;
+    window.history.replaceState(null, "", `${window.location.pathname}${shareQuery}${window.location.hash}`);
+  }, [shareQuery]);
 
-    const stopSeq = [route.from, ...(route.intermediates?.map((i) => i.name) ?? []), route.to];
+  // ✅ Off route during a guided trip: plan again from where the rider is to the same destination
+  const handleReplan = (coords: [number, number]) => {
+    if (!lastSearch) return;
+    handleFind({
+      ...lastSearch,
+      from: { label: t("place.myLocation"), coords },
+      roadRouting: useRoadRouting,
+    });
+  };
 
-    const legs: { from: string; to: string; fare: number }[] = [];
-    for (let i = 0; i < stopSeq.length - 1; i++) {
-      const fromStop = stopSeq[i];
-      const toStop = stopSeq[i + 1];
-      const fare = await fetchLegFare(fromStop, toStop);
-      legs.push({ from: fromStop, to: toStop, fare });
+  const handleShare = async () => {
+    if (!shareQuery) return;
+    const url = `${window.location.origin}${window.location.pathname}${shareQuery}`;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: t("app.title"), url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setShareStatus(t("status.linkCopied"));
+      }
+    } catch (err) {
+      // closing the share sheet also lands here
+      console.warn("Sharing cancelled or failed:", err);
     }
-    setLegFares(legs);
   };
 
-  computeLegFares();
-}, [selectedRouteId, matchingRoutes]);
+  const result = results.find((j) => j.id === selectedJourneyId) ?? null;
 
+  // ✅ Follow live positions on every route the selected journey rides
+  const rideRouteKey = useMemo(
+    () => [...new Set(result?.legs.flatMap((l) => (l.mode === "ride" ? [l.routeId] : [])) ?? [])].join("\u0000"),
+    [result]
+  );
+  useEffect(() => {
+    setVehicles(new Map());
+    if (!rideRouteKey) return;
+    const unsubscribes = rideRouteKey
+      .split("\u0000")
+      .map((routeId) =>
+        vehicleFeed.subscribe(routeId, (p) => setVehicles((prev) => new Map(prev).set(p.vehicleId, p)))
+      );
+    // re-check staleness even when nothing new arrives
+    const tick = setInterval(() => setNow(Date.now()), 15000);
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      clearInterval(tick);
+    };
+  }, [vehicleFeed, rideRouteKey]);
 
-  // ✅ Updated find handler
-const handleFind = () => {
-  if (!from || !to) return;
+  const liveVehicles = useMemo(
+    () => [...vehicles.values()].filter((v) => now - v.reportedAt <= VEHICLE_STALE_MS),
+    [vehicles, now]
+  );
 
-  const matches = routes.filter((r) => {
-    const stopSeq = [
-      r.from,
-      ...(r.intermediates?.map((i) => i.name) ?? []),
-      r.to,
-    ];
+  // ✅ ETAs at each boarding stop: the soonest per leg, and each vehicle's for its tooltip
+  const { liveArrivals, vehicleEtas } = useMemo(() => {
+    const arrivals = new Map<number, VehicleEta>();
+    const etas = new Map<string, VehicleEta & { stop: string }>();
+    result?.legs.forEach((leg, idx) => {
+      if (leg.mode !== "ride") return;
+      const route = routes.find((r) => r.id === leg.routeId);
+      if (!route) return;
+      const forward = leg.boardIndex < leg.alightIndex;
+      const next = nextArrival(route, liveVehicles, leg.boardIndex, forward, now);
+      if (next) arrivals.set(idx, next);
+      for (const v of liveVehicles) {
+        const eta = etas.has(v.vehicleId) ? null : vehicleEta(route, v, leg.boardIndex, forward);
+        if (eta) etas.set(v.vehicleId, { ...eta, stop: leg.from });
+      }
+    });
+    return { liveArrivals: arrivals, vehicleEtas: etas };
+  }, [result, routes, liveVehicles, now]);
 
-    // ✅ Only include routes where the first stop matches user's "from"
-    // and the last stop matches user's "to"
-    return stopSeq[0] === from && stopSeq[stopSeq.length - 1] === to;
-  });
+  // ✅ Everywhere From can reach within a fare, distance or changes budget
+  // only a picked (or found) stop or place, so typing in From does not search again on every key
+  const reachOrigin: Endpoint | null = fromPlace ?? stopById(fromId)?.id ?? null;
+  // searched once per origin and measure up to the largest budget; moving the
+  // slider only filters, since a stop's cheapest way there does not depend on it
+  const reachableAtMost = useMemo(() => {
+    if (!reachMeasure || !reachOrigin) return [];
+    const max = MAX_REACH_BUDGETS[reachMeasure];
+    const limits =
+      reachMeasure === "fare"
+        ? { maxFare: max }
+        : reachMeasure === "distance"
+          ? { maxDistance: max }
+          : { maxChanges: max };
+    return findReachableStops(graph, reachOrigin, limits, reachMeasure, {
+      time: tripTimeFor(timeMode, clockTime),
+      fares: fareContext,
+      reportedFares: useReportedFares ? fareEstimates : undefined,
+    });
+  }, [
+    graph,
+    reachOrigin,
+    reachMeasure,
+    timeMode,
+    clockTime,
+    fareContext,
+    useReportedFares,
+    fareEstimates,
+  ]);
+  const reachable = useMemo(
+    () =>
+      reachMeasure ? reachableAtMost.filter((s) => reachCost(s, reachMeasure) <= reachLimit + 1e-9) : [],
+    [reachableAtMost, reachMeasure, reachLimit]
+  );
 
-  setMatchingRoutes(matches);
+  // ✅ Fill From and To with a stop: picked from a list, the map, a saved place or trip
+  const pickFrom = (stop: Stop) => {
+    setFrom(stop.name);
+    setFromId(stop.id);
+    setFromPlace(null);
+  };
+  const pickTo = (stop: Stop) => {
+    setTo(stop.name);
+    setToId(stop.id);
+    setToPlace(null);
+  };
+  const setFromStop = (id: string) => {
+    const stop = stopById(id);
+    if (stop) pickFrom(stop);
+  };
+  const setToStop = (id: string) => {
+    const stop = stopById(id);
+    if (stop) pickTo(stop);
+  };
+  const handlePickTrip = (trip: SavedTrip) => {
+    setFromStop(trip.fromId);
+    setToStop(trip.toId);
+  };
 
-  if (matches.length) {
-    const firstRoute = matches[0];
-    setSelectedRouteId((firstRoute.id));
+  // start where the rider last searched, once we know whose searches to use
+  useEffect(() => {
+    if (restoredTrip || !authChecked || stops.length === 0) return;
+    if (riderOwner !== (userId ?? DEVICE)) return;
+    setRestoredTrip(true);
+    const last = riderData.recent[0];
+    const fromStop = last && stops.find((s) => s.id === last.fromId);
+    const toStop = last && stops.find((s) => s.id === last.toId);
+    if (!fromStop || !toStop) return;
+    setFrom(fromStop.name);
+    setFromId(fromStop.id);
+    setTo(toStop.name);
+    setToId(toStop.id);
+  }, [restoredTrip, authChecked, stops, riderOwner, userId, riderData]);
+
+  const currentFromId = fromPlace ? null : (fromId ?? stops.find((s) => s.name === from)?.id ?? null);
+  const currentToId = toPlace ? null : (toId ?? stops.find((s) => s.name === to)?.id ?? null);
+
+  const mapLegs = useMemo<MapLeg[]>(
+    () =>
+      result?.legs.map((l) =>
+        l.mode === "walk"
+          ? { coords: l.coords, stops: l.stops, walk: true }
+          : { coords: l.coords, stops: l.stops, routeCoords: l.routeCoords }
+      ) ?? [],
+    [result]
+  );
+
+  // ✅ Download the network as GTFS; importing is in the admin editor
+  const handleExportGtfs = () => {
+    const agencyUrl = import.meta.env.VITE_GTFS_AGENCY_URL as string | undefined;
+    const zip = zipGtfs(exportGtfs(stops, routes, agencyUrl || undefined));
+    const url = URL.createObjectURL(new Blob([zip as BlobPart], { type: "application/zip" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "trotro-gtfs.zip";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
 
-    const coords: [number, number][] = [];
-    coords.push(firstRoute.fromCoords);
-    if (firstRoute.intermediates?.length) {
-      coords.push(...firstRoute.intermediates.map((i) => i.coords));
+  // ✅ "I paid ₵X" from the itinerary card
+  const handleReportFare = async (leg: JourneyLeg, fare: number) => {
+    // with who paid it, so the rider's own discount and surcharges can be taken out again
+    const report = {
+      routeId: leg.routeId,
+      fromId: leg.fromId,
+      toId: leg.toId,
+      fare,
+      ...fareContext,
+      reportedAt: Date.now(),
+    };
+    await submitFareReport(report);
+    setFareReports((prev) => [...prev, report]);
+  };
+
+  // ✅ "Use my location" for the From field
+  const handleUseLocation = async () => {
+    setLocating(true);
+    setLocationError(null);
+    try {
+      const coords = await locationProvider.getCurrentPosition();
+      setUserCoords(coords);
+      setFromPlace({ label: t("place.myLocation"), coords });
+      setFrom(t("place.myLocation"));
+      setFromId(null);
+    } catch (err) {
+      console.error("Error getting location:", err);
+      setLocationError(err instanceof Error ? err.message : t("status.locationFailed"));
+    } finally {
+      setLocating(false);
     }
-    coords.push(firstRoute.toCoords);
+  };
 
-    setCoordsPath(coords);
-  } else {
-    setCoordsPath([]);
-    setSelectedRouteId(null);
-  }
+  // ✅ Tap on the map while picking fills From or To with a pin
+  const handleMapClick = (coords: [number, number]) => {
+    if (!pickOnMap) return;
+    const place = { label: t("place.droppedPin"), coords };
+    if (pickOnMap === "from") {
+      setFromPlace(place);
+      setFrom(place.label);
+      setFromId(null);
+    } else {
+      setToPlace(place);
+      setTo(place.label);
+      setToId(null);
+    }
+    setPickOnMap(null);
+  };
 
-  const res = findBestPath(stops, routes, from, to, priority);
-  setResult(res);
-};
+  // ✅ Where a picked place snaps onto the network, for the hint under the header
+  const snapHint = (place: PlacePoint | null) => {
+    if (!place) return null;
+    const [nearest] = nearestStops(stops, place.coords, 1);
+    if (!nearest) return null;
+    return t("status.snap", {
+      place: place.label,
+      distance: i18n.distance(nearest.distance),
+      stop: stopName(nearest.item.name),
+    });
+  };
+  const snapHints = [snapHint(fromPlace), snapHint(toPlace)].filter((h) => h !== null);
 
-  const stopNames = stops.map((s) => s.name);
+  // ✅ "Offline • last updated …" when not planning on live data
+  const lastUpdated = networkSavedAt
+    ? new Date(networkSavedAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })
+    : null;
+  const offlineStatus =
+    networkOrigin === "bundled"
+      ? t("status.offlineBundled")
+      : networkOrigin === "cache" || !online
+        ? t("status.offlineCached", { date: lastUpdated ?? t("status.unknownDate") })
+        : null;
+  const rejectedStatus = rejectedRows > 0 ? t("status.rejected", { count: rejectedRows }) : null;
+  const networkStatus = [offlineStatus, rejectedStatus].filter((s) => s !== null).join(" • ");
 
-  return (
-    <div className="app">
-      <header className="header">
-        <div
-          style={{
-            maxWidth: 1100,
-            margin: "0 auto",
-            padding: "8px 12px",
-            display: "flex",
-            flexDirection: "column", // ✅ stack by default
-            gap: 12,
-          }}
-        >
-          {/* Title */}
-          <h1
-            style={{
-              margin: 0,
-              fontSize: 20,
-              textAlign: "center",
-            }}
-          >
-            Ghana Trotro Transit
-          </h1>
+  const pickButtonStyle = (active: boolean) => ({
+    padding: "6px 8px",
+    borderRadius: 8,
+    border: "1px solid #ccc",
+    background: active ? "#fde68a" : "#fff",
+    cursor: "pointer",
+  });
 
-          {/* Controls */}
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div className="app">
+        <header className="header">
           <div
-            className="controls"
             style={{
+              maxWidth: 1100,
+              margin: "0 auto",
+              padding: "8px 12px",
               display: "flex",
-              flexWrap: "wrap", // ✅ allows wrapping to next line
-              gap: 8,
-              justifyContent: "center",
+              flexDirection: "column", // ✅ stack by default
+              gap: 12,
             }}
           >
-            {/* From Search */}
-            <div style={{ position: "relative" }}>
-              <input
-                type="text"
-                placeholder="From..."
+            {/* Title */}
+            <h1
+              style={{
+                margin: 0,
+                fontSize: 20,
+                textAlign: "center",
+              }}
+            >
+              {t("app.title")}
+            </h1>
+
+            {/* Controls */}
+            <div
+              className="controls"
+              style={{
+                display: "flex",
+                flexWrap: "wrap", // ✅ allows wrapping to next line
+                gap: 8,
+                justifyContent: "center",
+              }}
+            >
+              {/* From Search */}
+              <StopPicker
+                id="from-stop"
+                label={t("search.fromLabel")}
+                placeholder={t("search.from")}
                 value={from}
-                onChange={(e) => setFrom(e.target.value)}
+                suggestions={suggestions}
+                onChange={(text) => {
+                  setFrom(text);
+                  setFromId(null);
+                  setFromPlace(null);
+                }}
+                onPick={pickFrom}
+              />
+
+              {/* From: my location / pick on map */}
+              <button
+                onClick={handleUseLocation}
+                disabled={locating}
+                title={t("search.useLocation")}
+                aria-label={t("search.useLocation")}
+                style={pickButtonStyle(false)}
+              >
+                {locating ? "…" : "📍"}
+              </button>
+              <button
+                onClick={() => setPickOnMap(pickOnMap === "from" ? null : "from")}
+                title={t("search.pickStart")}
+                aria-label={t("search.pickStart")}
+                style={pickButtonStyle(pickOnMap === "from")}
+              >
+                🗺️
+              </button>
+
+              {/* To Search */}
+              <StopPicker
+                id="to-stop"
+                label={t("search.toLabel")}
+                placeholder={t("search.to")}
+                value={to}
+                suggestions={suggestions}
+                onChange={(text) => {
+                  setTo(text);
+                  setToId(null);
+                  setToPlace(null);
+                }}
+                onPick={pickTo}
+              />
+
+              {/* To: pick on map */}
+              <button
+                onClick={() => setPickOnMap(pickOnMap === "to" ? null : "to")}
+                title={t("search.pickDestination")}
+                aria-label={t("search.pickDestination")}
+                style={pickButtonStyle(pickOnMap === "to")}
+              >
+                🗺️
+              </button>
+
+              {/* Priority */}
+              <select
+                value={priority}
+                onChange={(e) => setPriority(e.target.value as Priority)}
                 style={{
                   padding: "6px 10px",
                   borderRadius: 8,
                   border: "1px solid #ccc",
-                  width: 160,
-                  maxWidth: "40vw", // ✅ shrink on small screens
+                  minWidth: 140,
                 }}
-              />
-              {from && (
-                <ul
+              >
+                <option value="fare">{t("priority.fare")}</option>
+                <option value="distance">{t("priority.distance")}</option>
+                <option value="stops">{t("priority.stops")}</option>
+                <option value="fastest">{t("priority.fastest")}</option>
+              </select>
+
+              {/* Passenger */}
+              <select
+                value={fareContext.passenger}
+                onChange={(e) => setFareContext({ ...fareContext, passenger: e.target.value as PassengerType })}
+                style={{
+                  padding: "6px 10px",
+                  borderRadius: 8,
+                  border: "1px solid #ccc",
+                }}
+              >
+                <option value="adult">{t("passenger.adult")}</option>
+                <option value="student">{t("passenger.student")}</option>
+                <option value="child">{t("passenger.child")}</option>
+                <option value="senior">{t("passenger.senior")}</option>
+              </select>
+              <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={fareContext.luggage}
+                  onChange={(e) => setFareContext({ ...fareContext, luggage: e.target.checked })}
+                />
+                {t("options.luggage")}
+              </label>
+
+              {/* When */}
+              <select
+                value={timeMode}
+                onChange={(e) => setTimeMode(e.target.value as "now" | "leaveAt" | "arriveBy")}
+                style={{
+                  padding: "6px 10px",
+                  borderRadius: 8,
+                  border: "1px solid #ccc",
+                }}
+              >
+                <option value="now">{t("when.now")}</option>
+                <option value="leaveAt">{t("when.leaveAt")}</option>
+                <option value="arriveBy">{t("when.arriveBy")}</option>
+              </select>
+              {timeMode !== "now" && (
+                <input
+                  type="time"
+                  value={clockTime}
+                  onChange={(e) => setClockTime(e.target.value)}
                   style={{
-                    position: "absolute",
-                    top: "100%",
-                    left: 0,
-                    right: 0,
-                    background: "#68439bff",
-                    borderRadius: 6,
-                    margin: 0,
-                    padding: 0,
-                    listStyle: "none",
-                    maxHeight: 150,
-                    overflowY: "auto",
-                    zIndex: 1000,
+                    padding: "6px 10px",
+                    borderRadius: 8,
+                    border: "1px solid #ccc",
                   }}
-                >
-                  {stopNames
-                    .filter(
-                      (n) => n.toLowerCase().includes(from.toLowerCase()) && n !== from
-                    )
-                    .map((n) => (
-                      <li
-                        key={n}
-                        onClick={() => setFrom(n)}
-                        style={{ padding: "6px 10px", cursor: "pointer" }}
-                      >
-                        {n}
-                      </li>
-                    ))}
-                </ul>
+                />
               )}
-            </div>
 
-            {/* To Search */}
-            <div style={{ position: "relative" }}>
-              <input
-                type="text"
-                placeholder="To..."
-                value={to}
-                onChange={(e) => setTo(e.target.value)}
+              {/* Walking between nearby stops */}
+              <select
+                value={walkRadiusKm}
+                onChange={(e) => setWalkRadiusKm(Number(e.target.value))}
                 style={{
                   padding: "6px 10px",
                   borderRadius: 8,
                   border: "1px solid #ccc",
-                  width: 160,
-                  maxWidth: "40vw",
                 }}
-              />
-              {to && (
-                <ul
+              >
+                <option value={0}>{t("walk.none")}</option>
+                {[0.2, 0.4, 0.8].map((km) => (
+                  <option key={km} value={km}>
+                    {t("walk.upTo", { distance: i18n.distance(km) })}
+                  </option>
+                ))}
+              </select>
+
+              {/* Alternatives */}
+              <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={showAlternatives}
+                  onChange={(e) => setShowAlternatives(e.target.checked)}
+                />
+                {t("options.alternatives")}
+              </label>
+
+              {/* Reported fares */}
+              <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={useReportedFares}
+                  onChange={(e) => setUseReportedFares(e.target.checked)}
+                />
+                {t("options.reportedFares")}
+              </label>
+
+              {/* Network overview */}
+              <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={showOverview}
+                  onChange={(e) => setShowOverview(e.target.checked)}
+                />
+                {t("options.allRoutes")}
+              </label>
+
+              {/* Road Routing */}
+              <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={useRoadRouting}
+                  onChange={(e) => setUseRoadRouting(e.target.checked)}
+                />
+                {t("options.roadRouting")}
+              </label>
+
+              {/* Button */}
+              <button
+                onClick={() => handleFind()}
+                style={{
+                  background: "#fff",
+                  color: "#6b21a8ff",
+                  padding: "6px 14px",
+                  borderRadius: 8,
+                  border: "none",
+                  cursor: "pointer",
+                }}
+              >
+                {t("action.find")}
+              </button>
+
+              {/* GTFS export */}
+              <button
+                onClick={handleExportGtfs}
+                title={t("action.exportGtfs")}
+                style={{
+                  background: "transparent",
+                  color: "#fff",
+                  padding: "6px 10px",
+                  borderRadius: 8,
+                  border: "1px solid rgba(255,255,255,0.6)",
+                  cursor: "pointer",
+                }}
+              >
+                GTFS
+              </button>
+
+              {/* Where can I go for a budget */}
+              <button
+                onClick={() => {
+                  if (reachMeasure) {
+                    setReachMeasure(null);
+                  } else {
+                    setReachMeasure("fare");
+                    setReachLimit(DEFAULT_REACH_BUDGETS.fare);
+                  }
+                }}
+                aria-pressed={reachMeasure !== null}
+                style={{
+                  background: reachMeasure ? "rgba(255,255,255,0.2)" : "transparent",
+                  color: "#fff",
+                  padding: "6px 10px",
+                  borderRadius: 8,
+                  border: "1px solid rgba(255,255,255,0.6)",
+                  cursor: "pointer",
+                }}
+              >
+                {t("action.reach")}
+              </button>
+
+              {/* Saved places and trips */}
+              <button
+                onClick={() => setShowRider(!showRider)}
+                style={{
+                  background: "transparent",
+                  color: "#fff",
+                  padding: "6px 10px",
+                  borderRadius: 8,
+                  border: "1px solid rgba(255,255,255,0.6)",
+                  cursor: "pointer",
+                }}
+              >
+                {t("action.myTrips")}
+              </button>
+
+              {/* Language */}
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as Language)}
+                aria-label={t("language.label")}
+                style={{
+                  padding: "6px 10px",
+                  borderRadius: 8,
+                  border: "1px solid #ccc",
+                }}
+              >
+                {LANGUAGE_CODES.map((code) => (
+                  <option key={code} value={code}>
+                    {LANGUAGE_NAMES[code]}
+                  </option>
+                ))}
+              </select>
+
+              {/* Share the planned trip */}
+              {shareQuery && (
+                <button
+                  onClick={handleShare}
                   style={{
-                    position: "absolute",
-                    top: "100%",
-                    left: 0,
-                    right: 0,
-                    background: "#68439bff",
-                    borderRadius: 6,
-                    margin: 0,
-                    padding: 0,
-                    listStyle: "none",
-                    maxHeight: 150,
-                    overflowY: "auto",
-                    zIndex: 1000,
+                    background: "transparent",
+                    color: "#fff",
+                    padding: "6px 10px",
+                    borderRadius: 8,
+                    border: "1px solid rgba(255,255,255,0.6)",
+                    cursor: "pointer",
                   }}
                 >
-                  {stopNames
-                    .filter((n) => n.toLowerCase().includes(to.toLowerCase()) && n !== to)
-                    .map((n) => (
-                      <li
-                        key={n}
-                        onClick={() => setTo(n)}
-                        style={{ padding: "6px 10px", cursor: "pointer" }}
-                      >
-                        {n}
-                      </li>
-                    ))}
-                </ul>
+                  {t("action.share")}
+                </button>
               )}
             </div>
 
-            {/* Priority */}
-            <select
-              value={priority}
-              onChange={(e) => setPriority(e.target.value as any)}
-              style={{
-                padding: "6px 10px",
-                borderRadius: 8,
-                border: "1px solid #ccc",
-                minWidth: 140,
-              }}
-            >
-              <option value="fare">Cheapest-first</option>
-              <option value="distance">Shortest-distance-first</option>
-              <option value="stops">Fewest-stops-first</option>
-            </select>
-
-            {/* Road Routing */}
-            <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
-              <input
-                type="checkbox"
-                checked={useRoadRouting}
-                onChange={(e) => setUseRoadRouting(e.target.checked)}
-              />
-              Road routing
-            </label>
+            {/* Snapping / picking status; always rendered so screen readers announce changes */}
+            <div role="status" style={{ fontSize: 13, textAlign: "center", opacity: 0.9 }}>
+              {pickOnMap && <div>{pickOnMap === "from" ? t("status.pickStart") : t("status.pickDestination")}</div>}
+              {locationError && <div>{locationError}</div>}
+              {searchError && <div>{searchError}</div>}
+              {shareStatus && <div>{shareStatus}</div>}
+              {snapHints.map((h) => (
+                <div key={h}>{h}</div>
+              ))}
+            </div>
 
-            {/* Button */}
-            <button
-              onClick={handleFind}
-              style={{
-                background: "#fff",
-                color: "#6b21a8ff",
-                padding: "6px 14px",
-                borderRadius: 8,
-                border: "none",
-                cursor: "pointer",
-              }}
-            >
-              Find Route
-            </button>
+            {/* Offline / stale data status */}
+            {networkStatus && (
+              <div style={{ fontSize: 12, textAlign: "center", opacity: 0.85 }}>{networkStatus}</div>
+            )}
           </div>
-        </div>
-      </header>
-
-
-      <main className="main">
-        <div style={{ position: "absolute", inset: 0 }}>
-          {/* ✅ Pass selectedRouteId */}
-          <MapView
-            stopsCoords={coordsPath}
-            useRoadRouting={useRoadRouting}
-          />
-        </div>
-
-        {/* ✅ Bottom card now shows multiple routes with stop details */}
-        <div className="bottom-card">
-          {matchingRoutes.length ? (
-            <div
-              style={{
-                maxHeight: "40vh",
-                overflowY: "auto",
-                maxWidth: 1100,
-                margin: "0 auto",
-                background: "#fff",
-                padding: 14,
-                borderRadius: 12,
-                boxShadow: "0 8px 24px rgba(0,0,0,0.12)",
-              }}
-            >
-              <h3 style={{ marginBottom: 8 }}>Available Routes</h3>
-              <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
-                {matchingRoutes.map((route) => {
-
-            // ✅ Build stop sequence for this specific route
-            const routeStops = [
-              route.from,
-              ...(route.intermediates?.map((i) => i.name) ?? []),
-              route.to,
-            ];
-
-            // ✅ Build leg segments with fare lookup from local routes[]
-            const segments = routeStops.slice(0, -1).map((stop, idx) => {
-              const nextStop = routeStops[idx + 1];
-
-              // Find all matching routes between stop and nextStop
-              const possibleLegs = routes.filter(
-                (r) => r.from === stop && r.to === nextStop
-              );
-
-              // Pick the cheapest fare (or first one if same)
-              const legFare =
-                possibleLegs.length > 0
-                  ? Math.min(...possibleLegs.map((r) => r.fare || 0))
-                  : 0;
-
-              return {
-                from: stop,
-                to: nextStop,
-                fare: legFare,
-              };
-            });
-
-            // ✅ Calculate total fare
-              const totalFare = segments.reduce((acc, s) => acc + s.fare, 0);
-
-
-                return (
-                  <li
-                    key={route.id}
-                    onClick={() => {
-                      setSelectedRouteId(route.id); // keep as string
-
-                      const coords: [number, number][] = [];
-                      coords.push(route.fromCoords);
-                      if (route.intermediates?.length) {
-                        coords.push(...route.intermediates.map((i) => i.coords));
-                      }
-                      coords.push(route.toCoords);
-
-                      setCoordsPath(coords);
-                    }}
-                    style={{
-                      padding: "12px",
-                      marginBottom: 8,
-                      borderRadius: 10,
-                      cursor: "pointer",
-                      background:
-                        (route.id) === selectedRouteId ? "#ede9fe" : "#fafafa",
-                      border:
-                        (route.id) === selectedRouteId
-                          ? "2px solid #6b21a8"
-                          : "1px solid #ddd",
-                      boxShadow:
-                        (route.id) === selectedRouteId
-                          ? "0 0 12px rgba(107, 33, 168, 0.4)"
-                          : "none",
-                      transition: "all 0.2s ease",
+        </header>
+
+
+        <main className="main">
+          <div style={{ position: "absolute", inset: 0 }}>
+            <MapView
+              legs={mapLegs}
+              useRoadRouting={useRoadRouting}
+              routingProvider={routingProvider}
+              places={[
+                fromPlace,
+                toPlace,
+                guiding && riderPosition ? { label: t("place.youAreHere"), coords: riderPosition } : null,
+              ].filter((p) => p !== null)}
+              onMapClick={pickOnMap ? handleMapClick : undefined}
+              controls={
+                reachMeasure && (
+                  <ReachPanel
+                    measure={reachMeasure}
+                    limit={reachLimit}
+                    count={reachable.length}
+                    hasOrigin={reachOrigin !== null}
+                    onChange={(measure, limit) => {
+                      setReachMeasure(measure);
+                      setReachLimit(limit);
                     }}
-                  >
-                    <div style={{ fontWeight: 700 }}>
-                      {route.from} → {route.to}
-                    </div>
-
-                    {/* ✅ Stops with correct segment fares */}
-                    <ul
-                      style={{
-                        margin: "6px 0",
-                        paddingLeft: 16,
-                        fontSize: 13,
-                        color: "#444",
-                      }}
-                    >
-                      {segments.map((s, idx) => (
-                        <li key={idx}>
-                          {s.from} → {s.to} —{" "}
-                          <span style={{ color: "green" }}>₵{s.fare}</span>
-                        </li>
-                      ))}
-                    </ul>
-
-                    {/* ✅ Total fare */}
-                    <div style={{ marginTop: 6, fontWeight: 600 }}>
-                      Total: <span style={{ color: "blue" }}>₵{totalFare}</span>
-                    </div>
-
-                    {/* Distance + stops count */}
-                    <div style={{ fontSize: 12, color: "#555" }}>
-                      {route.distance.toFixed(2)} km •{" "}
-                      {route.intermediates?.length ?? 0} intermediate stops
-                    </div>
-                  </li>
-                );
-              })}
-
-              </ul>
-            </div>
-          ) : (
-            <div
-              style={{
-                maxWidth: 1100,
-                margin: "0 auto",
-                background: "#fff",
-                padding: 14,
-                borderRadius: 12,
-                boxShadow: "0 8px 24px rgba(0,0,0,0.06)",
-                textAlign: "center",
-              }}
+                    onClose={() => setReachMeasure(null)}
+                  />
+                )
+              }
             >
-              No routes found
-            </div>
-          )}
-        </div>
+              {showOverview && (
+                <NetworkOverview
+                  stops={stops}
+                  routes={routes}
+                  onSetFrom={pickFrom}
+                  onSetTo={pickTo}
+                  fareContext={fareContext}
+                  fareTime={overviewFareTime}
+                  fitToNetwork={mapLegs.length === 0}
+                />
+              )}
+              {reachMeasure && (
+                <ReachabilityLayer
+                  reachable={reachable}
+                  measure={reachMeasure}
+                  limit={reachLimit}
+                  onSetTo={setToStop}
+                />
+              )}
+              <VehicleLayer vehicles={liveVehicles} etas={vehicleEtas} />
+            </MapView>
+          </div>
+
+          {/* ✅ Bottom card shows the planned journey leg by leg */}
+          <div className="bottom-card">
+            {showRider && (
+              <RiderPanel
+                user={user}
+                data={riderData}
+                stops={stops}
+                fromStopId={currentFromId}
+                toStopId={currentToId}
+                onChange={setRiderData}
+                onPickTrip={handlePickTrip}
+                onPickPlace={(id, end) => (end === "from" ? setFromStop(id) : setToStop(id))}
+                onClose={() => setShowRider(false)}
+              />
+            )}
+            {result && guiding ? (
+              <TripGuide
+                key={result.id}
+                journey={result}
+                locationProvider={locationProvider}
+                onPosition={setRiderPosition}
+                onReplan={handleReplan}
+                onExit={() => {
+                  setGuiding(false);
+                  setRiderPosition(null);
+                }}
+              />
+            ) : result ? (
+              <JourneyCard
+                journeys={results}
+                selectedId={result.id}
+                onSelect={setSelectedJourneyId}
+                fareEstimates={fareEstimates}
+                onReportFare={handleReportFare}
+                liveArrivals={liveArrivals}
+                onStartTrip={() => setGuiding(true)}
+              />
+            ) : (
+              <div
+                style={{
+                  maxWidth: 1100,
+                  margin: "0 auto",
+                  background: "#fff",
+                  padding: 14,
+                  borderRadius: 12,
+                  boxShadow: "0 8px 24px rgba(0,0,0,0.06)",
+                  textAlign: "center",
+                }}
+              >
+                {searched ? t("result.none") : t("result.prompt")}
+              </div>
+            )}
+          </div>
 
-      </main>
-    </div>
+        </main>
+      </div>
+    </I18nContext.Provider>
   );
 }
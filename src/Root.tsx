@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import App from "./App";
+import AdminPage from "./components/AdminPage";
+import AnalyticsPage from "./components/AnalyticsPage";
+import DriverPage from "./components/DriverPage";
+
+/**
+ * #/admin opens the network editor, #/driver the position sharer and
+ * #/analytics the network health report; everything else is the planner
+ */
+export default function Root() {
+  const [hash, setHash] = useState<string>(window.location.hash);
+
+  useEffect(() => {
+    const onChange = () => setHash(window.location.hash);
+    window.addEventListener("hashchange", onChange);
+    return () => window.removeEventListener("hashchange", onChange);
+  }, []);
+
+  if (hash.startsWith("#/admin")) return <AdminPage />;
+  if (hash.startsWith("#/driver")) return <DriverPage />;
+  if (hash.startsWith("#/analytics")) return <AnalyticsPage />;
+  return <App />;
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from "react";
+import { Marker, Polyline, Popup, Tooltip, useMap } from "react-leaflet";
+import type { Stop } from "../types";
+
+export type EditMode = "move" | "addStop" | "drawRoute";
+
+interface AdminMapLayerProps {
+  stops: Stop[];
+  draftStopIds: string[];              // the route being drawn, in order
+  mode: EditMode;
+  onMoveStop: (id: string, coords: [number, number]) => void;
+  onPickStop: (stop: Stop) => void;    // clicked while drawing a route
+}
+
+/**
+ * The editable network inside a MapView: every stop as a marker that can be
+ * dragged in "move" mode or clicked onto the route being drawn, and that
+ * route's line with each stop's position in it.
+ */
+export default function AdminMapLayer({ stops, draftStopIds, mode, onMoveStop, onPickStop }: AdminMapLayerProps) {
+  const map = useMap();
+  const fitted = useRef(false);
+
+  // zoom to the network once it first loads
+  useEffect(() => {
+    if (fitted.current || stops.length < 2) return;
+    map.fitBounds(stops.map((s) => s.coords), { padding: [40, 40] });
+    fitted.current = true;
+  }, [map, stops]);
+
+  const byId = new Map(stops.map((s) => [s.id, s]));
+  const draft = draftStopIds.map((id) => byId.get(id)).filter((s) => s !== undefined);
+
+  return (
+    <>
+      {draft.length > 1 && <Polyline positions={draft.map((s) => s.coords)} color="#6b21a8" weight={5} />}
+
+      {stops.map((stop) => {
+        const order = draftStopIds.indexOf(stop.id);
+        return (
+          <Marker
+            key={`${stop.id}-${mode}`}
+            position={stop.coords}
+            draggable={mode === "move"}
+            opacity={mode === "drawRoute" && order < 0 ? 0.6 : 1}
+            eventHandlers={{
+              dragend: (e) => {
+                const { lat, lng } = e.target.getLatLng();
+                onMoveStop(stop.id, [lat, lng]);
+              },
+              click: () => {
+                if (mode === "drawRoute") onPickStop(stop);
+              },
+            }}
+          >
+            {order >= 0 && (
+              <Tooltip permanent direction="top" offset={[0, -30]}>
+                {order + 1}
+              </Tooltip>
+            )}
+            {mode !== "drawRoute" && <Popup>{stop.name}</Popup>}
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
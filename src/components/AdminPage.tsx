@@ -0,0 +1,373 @@
+import { useEffect, useMemo, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import type { Stop, Route } from "../types";
+import MapView from "./MapView";
+import AdminMapLayer, { type EditMode } from "./AdminMapLayer";
+import SignInForm from "./SignInForm";
+import GtfsImportPanel from "./GtfsImportPanel";
+import { currentUser, isAdmin, onUserChange, signOut } from "../lib/auth";
+import type { NetworkSource } from "../lib/networkSource";
+import { supabaseNetworkSource } from "../lib/supabaseNetworkSource";
+import { saveNetworkChanges } from "../lib/supabaseNetworkWriter";
+import { diffNetwork } from "../utils/networkDiff";
+import { routeFromSequence, validateNetworkEdit } from "../utils/networkEdits";
+import { buildDirectFares, routeHops, routeLabel, routeStopKeys } from "../utils/routeSegments";
+
+interface AdminPageProps {
+  networkSource?: NetworkSource;
+}
+
+/**
+ * A route being edited: its stops in order and the fare of each hop between
+ * them. A route without segment fares keeps its own fare until one is edited.
+ */
+interface RouteDraft {
+  id: string;
+  isNew: boolean;
+  stopIds: string[];
+  segmentFares?: number[];
+}
+
+const buttonStyle = {
+  padding: "4px 10px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+const MODE_LABELS: Record<EditMode, string> = {
+  move: "Drag stops",
+  addStop: "Add stops",
+  drawRoute: "Draw route",
+};
+
+/** Start a draft from a route; a route whose stops are not in `stops` gets an empty one */
+function draftFromRoute(route: Route, stops: Stop[]): RouteDraft {
+  const ids = new Set(stops.map((s) => s.id));
+  const stopIds = routeStopKeys(route).filter((k) => ids.has(k));
+  const fits = route.segmentFares?.length === stopIds.length - 1;
+  return { id: route.id, isNew: false, stopIds, segmentFares: fits ? [...route.segmentFares!] : undefined };
+}
+
+function NetworkEditor({ networkSource }: { networkSource: NetworkSource }) {
+  const [original, setOriginal] = useState<{ stops: Stop[]; routes: Route[] }>({ stops: [], routes: [] });
+  const [stops, setStops] = useState<Stop[]>([]);
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [mode, setMode] = useState<EditMode>("move");
+  const [draft, setDraft] = useState<RouteDraft | null>(null);
+  const [newStopName, setNewStopName] = useState<string>("");
+  const [problems, setProblems] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [reloadCount, setReloadCount] = useState<number>(0);
+
+  // always edit the live network, never a cached copy; reloaded after a GTFS import
+  useEffect(() => {
+    networkSource
+      .load()
+      .then((data) => {
+        setOriginal({ stops: data.stops, routes: data.routes });
+        setStops(data.stops);
+        setRoutes(data.routes);
+      })
+      .catch((err) => {
+        console.error("Error loading network:", err);
+        setMessage("Could not load the network");
+      });
+  }, [networkSource, reloadCount]);
+
+  // routes follow their stops when those are moved or renamed
+  const editedRoutes = useMemo(
+    () => routes.map((r) => routeFromSequence(r.id, routeStopKeys(r), r.segmentFares, stops, r)),
+    [routes, stops]
+  );
+
+  const stopName = (id: string) => stops.find((s) => s.id === id)?.name ?? id;
+
+  const handleMoveStop = (id: string, coords: [number, number]) => {
+    setStops((prev) => prev.map((s) => (s.id === id ? { ...s, coords } : s)));
+  };
+
+  const handleMapClick = (coords: [number, number]) => {
+    const name = newStopName.trim() || `New stop ${stops.length + 1}`;
+    setStops((prev) => [...prev, { id: crypto.randomUUID(), name, coords }]);
+    setNewStopName("");
+  };
+
+  const handlePickStop = (stop: Stop) => {
+    setDraft((d) =>
+      d && {
+        ...d,
+        stopIds: [...d.stopIds, stop.id],
+        segmentFares: d.segmentFares && d.stopIds.length > 0 ? [...d.segmentFares, 0] : d.segmentFares,
+      }
+    );
+  };
+
+  const editRoute = (route: Route) => {
+    setDraft(draftFromRoute(route, stops));
+    setMode("drawRoute");
+  };
+
+  const newRoute = () => {
+    setDraft({ id: crypto.randomUUID(), isNew: true, stopIds: [], segmentFares: [] });
+    setMode("drawRoute");
+  };
+
+  // swap stop idx with the one before it; the fares stay with their hop positions
+  const moveUp = (idx: number) => {
+    if (!draft || idx === 0) return;
+    const stopIds = [...draft.stopIds];
+    [stopIds[idx - 1], stopIds[idx]] = [stopIds[idx], stopIds[idx - 1]];
+    setDraft({ ...draft, stopIds });
+  };
+
+  // dropping a stop joins its two hops into one costing the same as both
+  const removeStop = (idx: number) => {
+    if (!draft) return;
+    const stopIds = draft.stopIds.filter((_, i) => i !== idx);
+    if (!draft.segmentFares) {
+      setDraft({ ...draft, stopIds });
+      return;
+    }
+    const fares = [...draft.segmentFares];
+    if (idx === 0) fares.shift();
+    else if (idx === draft.stopIds.length - 1) fares.pop();
+    else fares.splice(idx - 1, 2, fares[idx - 1] + fares[idx]);
+    setDraft({ ...draft, stopIds, segmentFares: fares });
+  };
+
+  // until one is edited, hops show the route's fare split the way planning splits it
+  const directFares = useMemo(() => buildDirectFares(routes), [routes]);
+  const hopFares = (d: RouteDraft): number[] => {
+    if (d.segmentFares) return d.segmentFares;
+    const base = routes.find((r) => r.id === d.id);
+    return routeHops(routeFromSequence(d.id, d.stopIds, undefined, stops, base), directFares).map((h) => h.fare);
+  };
+
+  const draftFares = draft ? hopFares(draft) : [];
+
+  const setSegmentFare = (idx: number, value: string) => {
+    if (!draft) return;
+    const segmentFares = draftFares.map((f, i) => (i === idx ? Number(value) : f));
+    setDraft({ ...draft, segmentFares });
+  };
+
+  const applyDraft = () => {
+    if (!draft) return;
+    const base = routes.find((r) => r.id === draft.id);
+    const route = routeFromSequence(draft.id, draft.stopIds, draft.segmentFares, stops, base);
+    setRoutes((prev) => (draft.isNew ? [...prev, route] : prev.map((r) => (r.id === route.id ? route : r))));
+    setDraft(null);
+    setMode("move");
+  };
+
+  const handleSave = async () => {
+    const found = validateNetworkEdit(stops, editedRoutes);
+    setProblems(found);
+    setMessage(null);
+    if (found.length > 0) return;
+
+    const edited = { stops, routes: editedRoutes };
+    const diff = diffNetwork(original, edited);
+    const count =
+      diff.stops.added.length + diff.stops.changed.length + diff.routes.added.length + diff.routes.changed.length;
+    if (count === 0) {
+      setMessage("Nothing to save");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveNetworkChanges(diff);
+      setOriginal(edited);
+      setMessage(`Saved ${count} change${count === 1 ? "" : "s"}`);
+    } catch (err) {
+      console.error("Error saving network:", err);
+      setMessage("Saving failed; your edits are still here");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="main" style={{ display: "flex" }}>
+      <div style={{ flex: 1, position: "relative" }}>
+        <div style={{ position: "absolute", inset: 0 }}>
+          <MapView legs={[]} onMapClick={mode === "addStop" ? handleMapClick : undefined}>
+            <AdminMapLayer
+              stops={stops}
+              draftStopIds={draft?.stopIds ?? []}
+              mode={mode}
+              onMoveStop={handleMoveStop}
+              onPickStop={handlePickStop}
+            />
+          </MapView>
+        </div>
+      </div>
+
+      <aside style={{ width: 340, overflowY: "auto", padding: 12, borderLeft: "1px solid #ddd", fontSize: 14 }}>
+        <div style={{ display: "flex", gap: 6, marginBottom: 12 }}>
+          {(Object.keys(MODE_LABELS) as EditMode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              disabled={m === "drawRoute" && !draft}
+              style={{ ...buttonStyle, background: mode === m ? "#ede9fe" : "#fff" }}
+            >
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+
+        {mode === "move" && <div style={{ color: "#555" }}>Drag a stop to move it.</div>}
+        {mode === "addStop" && (
+          <div>
+            <input
+              placeholder="Name of the next stop"
+              value={newStopName}
+              onChange={(e) => setNewStopName(e.target.value)}
+              style={{ width: "100%" }}
+            />
+            <div style={{ color: "#555", marginTop: 4 }}>Click the map where the stop is.</div>
+          </div>
+        )}
+
+        {draft ? (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ fontWeight: 600 }}>{draft.isNew ? "New route" : "Editing route"}</div>
+            <div style={{ color: "#555", marginBottom: 6 }}>Click stops on the map in the order the route runs.</div>
+            <ol style={{ paddingLeft: 20, margin: 0 }}>
+              {draft.stopIds.map((id, idx) => (
+                <li key={`${id}-${idx}`} style={{ marginBottom: 4 }}>
+                  {stopName(id)}{" "}
+                  <button onClick={() => moveUp(idx)} disabled={idx === 0} title="Move up">
+                    ↑
+                  </button>{" "}
+                  <button onClick={() => removeStop(idx)} title="Remove">
+                    ✕
+                  </button>
+                  {idx < draft.stopIds.length - 1 && (
+                    <div style={{ fontSize: 12, color: "#555" }}>
+                      fare to next stop ₵
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={draftFares[idx]}
+                        onChange={(e) => setSegmentFare(idx, e.target.value)}
+                        style={{ width: 60, marginLeft: 4 }}
+                      />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+            <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+              <button onClick={applyDraft} disabled={draft.stopIds.length < 2} style={buttonStyle}>
+                Done
+              </button>
+              <button onClick={() => setDraft(null)} style={buttonStyle}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <span style={{ fontWeight: 600 }}>Routes</span>
+              <button onClick={newRoute} style={buttonStyle}>
+                + New route
+              </button>
+            </div>
+            <ul style={{ paddingLeft: 18 }}>
+              {editedRoutes.map((r) => (
+                <li key={r.id}>
+                  <button
+                    onClick={() => editRoute(r)}
+                    style={{ background: "none", border: "none", padding: 0, color: "#6b21a8", cursor: "pointer" }}
+                  >
+                    {routeLabel(r)}
+                  </button>{" "}
+                  • ₵{r.fare}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div style={{ borderTop: "1px solid #eee", paddingTop: 12, marginTop: 12 }}>
+          <button onClick={handleSave} disabled={saving || !!draft} style={buttonStyle}>
+            {saving ? "Saving…" : "Check & save"}
+          </button>
+          {message && <div style={{ marginTop: 6 }}>{message}</div>}
+          {problems.length > 0 && (
+            <ul style={{ color: "crimson", paddingLeft: 18, fontSize: 13 }}>
+              {problems.map((p, i) => (
+                <li key={i}>{p}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {!draft && <GtfsImportPanel networkSource={networkSource} onSaved={() => setReloadCount((n) => n + 1)} />}
+      </aside>
+    </main>
+  );
+}
+
+/** Network editor for operators and admins; everyone else is asked to sign in */
+export default function AdminPage({ networkSource }: AdminPageProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [checked, setChecked] = useState<boolean>(false);
+  const [signOutError, setSignOutError] = useState<string | null>(null);
+  const source = useMemo(() => networkSource ?? supabaseNetworkSource(), [networkSource]);
+
+  useEffect(() => {
+    currentUser()
+      .then(setUser)
+      .catch((err) => console.error("Error reading session:", err))
+      .finally(() => setChecked(true));
+    return onUserChange(setUser);
+  }, []);
+
+  const handleSignOut = () => {
+    setSignOutError(null);
+    signOut().catch((err) => {
+      console.error("Sign-out failed:", err);
+      setSignOutError("Could not sign out; check your connection and try again");
+    });
+  };
+
+  return (
+    <div className="app">
+      <header className="header" style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <span style={{ fontWeight: 600 }}>Trotro network editor</span>
+        <span style={{ display: "flex", gap: 12, fontSize: 13 }}>
+          <a href="#/analytics" style={{ color: "#fff" }}>
+            Network health
+          </a>
+          <a href="#/" style={{ color: "#fff" }}>
+            Back to planner
+          </a>
+          {user && (
+            <button onClick={handleSignOut} style={{ ...buttonStyle, padding: "2px 8px" }}>
+              Sign out
+            </button>
+          )}
+        </span>
+      </header>
+
+      {signOutError && <div style={{ color: "crimson", fontSize: 13, margin: "8px auto" }}>{signOutError}</div>}
+
+      {!checked ? null : !user ? (
+        <SignInForm />
+      ) : !isAdmin(user) ? (
+        <div style={{ margin: "40px auto" }}>{user.email} is not allowed to edit the network.</div>
+      ) : (
+        <NetworkEditor networkSource={source} />
+      )}
+    </div>
+  );
+}
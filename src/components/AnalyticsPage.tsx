@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import type { Stop, Route } from "../types";
+import { loadNetwork } from "../lib/networkCache";
+import type { NetworkSource } from "../lib/networkSource";
+import { supabaseNetworkSource } from "../lib/supabaseNetworkSource";
+import { analyseNetwork, DETOUR_RATIO, MAX_STOP_GAP_KM, networkHealthCsv } from "../utils/networkHealth";
+
+interface AnalyticsPageProps {
+  networkSource?: NetworkSource;
+}
+
+/** Rows shown per table; the CSV always has all of them */
+const SHOWN_ROWS = 20;
+
+const buttonStyle = {
+  padding: "2px 8px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+const cellStyle = { padding: "4px 8px", borderBottom: "1px solid #eee", textAlign: "left" as const };
+
+function downloadCsv(name: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/csv" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** One finding: a heading with its count, what it means, a table and its CSV */
+function Section({ title, count, note, csvName, csv, children }: {
+  title: string;
+  count: number;
+  note: string;
+  csvName: string;
+  csv: string;
+  children: ReactNode;
+}) {
+  return (
+    <section style={{ marginBottom: 24 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <h3 style={{ margin: "0 0 4px" }}>
+          {title} ({count})
+        </h3>
+        <button onClick={() => downloadCsv(csvName, csv)} style={buttonStyle}>
+          Download CSV
+        </button>
+      </div>
+      <div style={{ fontSize: 13, color: "#555", marginBottom: 6 }}>{note}</div>
+      {count > 0 && (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>{children}</table>
+        </div>
+      )}
+      {count > SHOWN_ROWS && (
+        <div style={{ fontSize: 12, color: "#555", marginTop: 4 }}>
+          Showing {SHOWN_ROWS} of {count}; the CSV has them all.
+        </div>
+      )}
+    </section>
+  );
+}
+
+function Head({ columns }: { columns: string[] }) {
+  return (
+    <thead>
+      <tr>
+        {columns.map((c) => (
+          <th key={c} style={cellStyle}>
+            {c}
+          </th>
+        ))}
+      </tr>
+    </thead>
+  );
+}
+
+/**
+ * Data quality of the loaded network for the data team: islands no route
+ * links, the busiest hubs, suspicious route shapes, stops nothing serves
+ * and fares out of line with the rest.
+ */
+export default function AnalyticsPage({ networkSource }: AnalyticsPageProps) {
+  const [network, setNetwork] = useState<{ stops: Stop[]; routes: Route[] } | null>(null);
+  const source = useMemo(() => networkSource ?? supabaseNetworkSource(), [networkSource]);
+
+  useEffect(() => {
+    loadNetwork(source).then(({ stops, routes }) => setNetwork({ stops, routes }));
+  }, [source]);
+
+  const health = useMemo(() => (network ? analyseNetwork(network.stops, network.routes) : null), [network]);
+  const csv = useMemo(() => (health ? networkHealthCsv(health) : null), [health]);
+
+  return (
+    <div className="app">
+      <header className="header" style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <span style={{ fontWeight: 600 }}>Network health</span>
+        <a href="#/" style={{ color: "#fff", fontSize: 13 }}>
+          Back to planner
+        </a>
+      </header>
+
+      {!network || !health || !csv ? (
+        <div style={{ margin: "40px auto" }}>Loading the network…</div>
+      ) : (
+        <div style={{ maxWidth: 1000, width: "100%", margin: "0 auto", padding: 16, boxSizing: "border-box", overflowY: "auto" }}>
+          <div style={{ marginBottom: 16, color: "#555" }}>
+            {network.stops.length} stops • {network.routes.length} routes
+          </div>
+
+          <Section
+            title="Connected components"
+            count={health.components.length}
+            note="Groups of stops linked by routes. Anything besides the first group is an island riders cannot reach from the rest."
+            csvName="components.csv"
+            csv={csv["components.csv"]}
+          >
+            <Head columns={["#", "Stops", "Names"]} />
+            <tbody>
+              {health.components.slice(0, SHOWN_ROWS).map((g, i) => (
+                <tr key={g.stopIds[0]}>
+                  <td style={cellStyle}>{i + 1}</td>
+                  <td style={cellStyle}>{g.stopIds.length}</td>
+                  <td style={cellStyle}>
+                    {g.names.slice(0, 8).join(", ")}
+                    {g.names.length > 8 && ", …"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Section>
+
+          <Section
+            title="Hub stops"
+            count={health.hubs.length}
+            note="Degree counts the stops one hop away; betweenness counts the shortest stop-to-stop paths that pass through."
+            csvName="hubs.csv"
+            csv={csv["hubs.csv"]}
+          >
+            <Head columns={["Stop", "Degree", "Routes", "Betweenness"]} />
+            <tbody>
+              {health.hubs.slice(0, SHOWN_ROWS).map((h) => (
+                <tr key={h.stopId}>
+                  <td style={cellStyle}>{h.name}</td>
+                  <td style={cellStyle}>{h.degree}</td>
+                  <td style={cellStyle}>{h.routes}</td>
+                  <td style={cellStyle}>{h.betweenness}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Section>
+
+          <Section
+            title="Route gaps and detours"
+            count={health.routeIssues.length}
+            note={`Consecutive stops more than ${MAX_STOP_GAP_KM} km apart, and stops more than ${DETOUR_RATIO}× further round than going straight past them.`}
+            csvName="route_issues.csv"
+            csv={csv["route_issues.csv"]}
+          >
+            <Head columns={["Route", "Issue", "Where", "km"]} />
+            <tbody>
+              {health.routeIssues.slice(0, SHOWN_ROWS).map((x) => (
+                <tr key={`${x.routeId}-${x.kind}-${x.from}-${x.via ?? ""}-${x.to}`}>
+                  <td style={cellStyle}>{x.label}</td>
+                  <td style={cellStyle}>{x.kind === "gap" ? "Gap" : "Detour"}</td>
+                  <td style={cellStyle}>{x.via ? `${x.from} → ${x.via} → ${x.to}` : `${x.from} → ${x.to}`}</td>
+                  <td style={cellStyle}>{x.distance.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Section>
+
+          <Section
+            title="Unserved stops"
+            count={health.unserved.length}
+            note="Stops no route stops at."
+            csvName="unserved_stops.csv"
+            csv={csv["unserved_stops.csv"]}
+          >
+            <Head columns={["Stop", "Id", "Coordinates"]} />
+            <tbody>
+              {health.unserved.slice(0, SHOWN_ROWS).map((s) => (
+                <tr key={s.id}>
+                  <td style={cellStyle}>{s.name}</td>
+                  <td style={cellStyle}>{s.id}</td>
+                  <td style={cellStyle}>
+                    {s.coords[0].toFixed(5)}, {s.coords[1].toFixed(5)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Section>
+
+          <Section
+            title="Fare per km outliers"
+            count={health.fareOutliers.length}
+            note="Routes charging far more or less per km than the others (outside 1.5 interquartile ranges)."
+            csvName="fare_outliers.csv"
+            csv={csv["fare_outliers.csv"]}
+          >
+            <Head columns={["Route", "Fare", "km", "₵/km", "Median ₵/km", ""]} />
+            <tbody>
+              {health.fareOutliers.slice(0, SHOWN_ROWS).map((f) => (
+                <tr key={f.routeId}>
+                  <td style={cellStyle}>{f.label}</td>
+                  <td style={cellStyle}>₵{f.fare.toFixed(2)}</td>
+                  <td style={cellStyle}>{f.distance.toFixed(1)}</td>
+                  <td style={cellStyle}>{f.farePerKm.toFixed(2)}</td>
+                  <td style={cellStyle}>{f.median.toFixed(2)}</td>
+                  <td style={cellStyle}>{f.kind === "high" ? "High" : "Low"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import type { Route } from "../types";
+import SignInForm from "./SignInForm";
+import { canPublishVehicles, currentUser, onUserChange, signOut } from "../lib/auth";
+import { loadNetwork } from "../lib/networkCache";
+import type { NetworkSource } from "../lib/networkSource";
+import { supabaseNetworkSource } from "../lib/supabaseNetworkSource";
+import { defaultLocationProvider, type LocationProvider } from "../lib/geolocation";
+import { defaultVehicleFeed, type RecordedTrack, type VehicleFeed } from "../lib/vehicleFeed";
+import { routeLabel } from "../utils/routeSegments";
+
+interface DriverPageProps {
+  networkSource?: NetworkSource;
+  locationProvider?: LocationProvider;
+  vehicleFeed?: VehicleFeed;
+}
+
+/** How often a position is published while sharing */
+const PUBLISH_INTERVAL_MS = 10000;
+
+const buttonStyle = {
+  padding: "6px 12px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+/**
+ * For drivers and station masters: publish where a trotro is while it runs
+ * a route, and keep the fixes as a track the simulator can replay.
+ */
+function PositionSharer({ routes, locationProvider, vehicleFeed }: {
+  routes: Route[];
+  locationProvider: LocationProvider;
+  vehicleFeed: VehicleFeed;
+}) {
+  const [routeId, setRouteId] = useState<string>("");
+  const [forward, setForward] = useState<boolean>(true);
+  const [vehicleId, setVehicleId] = useState<string>("");
+  const [sharing, setSharing] = useState<boolean>(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [track, setTrack] = useState<RecordedTrack | null>(null);
+  const startedAt = useRef<number>(0);
+
+  useEffect(() => {
+    if (!sharing) return;
+    let cancelled = false;
+
+    const publishOnce = async () => {
+      try {
+        const coords = await locationProvider.getCurrentPosition();
+        const reportedAt = Date.now();
+        await vehicleFeed.publish({ vehicleId, routeId, forward, coords, reportedAt });
+        if (cancelled) return;
+        const t = Math.round((reportedAt - startedAt.current) / 1000);
+        setTrack((prev) => prev && { ...prev, points: [...prev.points, { t, coords }] });
+        setStatus(`Last sent at ${new Date(reportedAt).toLocaleTimeString()}`);
+      } catch (err) {
+        console.error("Error publishing position:", err);
+        if (!cancelled) setStatus(err instanceof Error ? err.message : "Could not send the position");
+      }
+    };
+
+    publishOnce();
+    const timer = setInterval(publishOnce, PUBLISH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [sharing, locationProvider, vehicleFeed, vehicleId, routeId, forward]);
+
+  const start = () => {
+    startedAt.current = Date.now();
+    setTrack({ vehicleId, routeId, forward, points: [] });
+    setStatus("Starting…");
+    setSharing(true);
+  };
+
+  const downloadTrack = () => {
+    if (!track) return;
+    const url = URL.createObjectURL(new Blob([JSON.stringify([track], null, 2)], { type: "application/json" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `track-${track.vehicleId}-${track.routeId}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const route = routes.find((r) => r.id === routeId);
+
+  return (
+    <div style={{ maxWidth: 420, margin: "24px auto", display: "grid", gap: 10, padding: "0 12px" }}>
+      <select value={routeId} onChange={(e) => setRouteId(e.target.value)} disabled={sharing}>
+        <option value="">Choose the route</option>
+        {routes.map((r) => (
+          <option key={r.id} value={r.id}>
+            {routeLabel(r)}
+          </option>
+        ))}
+      </select>
+      {route && (
+        <select value={forward ? "forward" : "back"} onChange={(e) => setForward(e.target.value === "forward")} disabled={sharing}>
+          <option value="forward">Towards {route.to}</option>
+          {!route.oneWay && <option value="back">Towards {route.from}</option>}
+        </select>
+      )}
+      <input
+        placeholder="Vehicle number plate"
+        value={vehicleId}
+        onChange={(e) => setVehicleId(e.target.value.toUpperCase())}
+        disabled={sharing}
+      />
+      {sharing ? (
+        <button onClick={() => setSharing(false)} style={buttonStyle}>
+          Stop sharing
+        </button>
+      ) : (
+        <button onClick={start} disabled={!routeId || !vehicleId.trim()} style={buttonStyle}>
+          Start sharing position
+        </button>
+      )}
+      {status && <div style={{ fontSize: 13, color: "#555" }}>{status}</div>}
+      {track && !sharing && track.points.length > 0 && (
+        <button onClick={downloadTrack} style={buttonStyle}>
+          Download track ({track.points.length} fixes)
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** Page for publishing live positions; only drivers, station masters and operators get past sign-in */
+export default function DriverPage({ networkSource, locationProvider, vehicleFeed }: DriverPageProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [checked, setChecked] = useState<boolean>(false);
+  const [signOutError, setSignOutError] = useState<string | null>(null);
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const source = useMemo(() => networkSource ?? supabaseNetworkSource(), [networkSource]);
+  const location = useMemo(() => locationProvider ?? defaultLocationProvider(), [locationProvider]);
+  const feed = useMemo(() => vehicleFeed ?? defaultVehicleFeed(), [vehicleFeed]);
+
+  useEffect(() => {
+    currentUser()
+      .then(setUser)
+      .catch((err) => console.error("Error reading session:", err))
+      .finally(() => setChecked(true));
+    return onUserChange(setUser);
+  }, []);
+
+  const handleSignOut = () => {
+    setSignOutError(null);
+    signOut().catch((err) => {
+      console.error("Sign-out failed:", err);
+      setSignOutError("Could not sign out; check your connection and try again");
+    });
+  };
+
+  useEffect(() => {
+    loadNetwork(source).then((network) => setRoutes(network.routes));
+  }, [source]);
+
+  return (
+    <div className="app">
+      <header className="header" style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <span style={{ fontWeight: 600 }}>Share trotro position</span>
+        <span style={{ display: "flex", gap: 12, fontSize: 13 }}>
+          <a href="#/" style={{ color: "#fff" }}>
+            Back to planner
+          </a>
+          {user && (
+            <button onClick={handleSignOut} style={{ ...buttonStyle, padding: "2px 8px" }}>
+              Sign out
+            </button>
+          )}
+        </span>
+      </header>
+
+      {signOutError && <div style={{ color: "crimson", fontSize: 13, margin: "8px auto" }}>{signOutError}</div>}
+
+      {!checked ? null : !user ? (
+        <SignInForm />
+      ) : !canPublishVehicles(user) ? (
+        <div style={{ margin: "40px auto" }}>{user.email} is not registered as a driver or station master.</div>
+      ) : (
+        <PositionSharer routes={routes} locationProvider={location} vehicleFeed={feed} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import type { NetworkSource } from "../lib/networkSource";
+import { saveNetworkChanges } from "../lib/supabaseNetworkWriter";
+import { importGtfs, unzipGtfs, type GtfsImport } from "../utils/gtfs";
+import { diffNetwork, keepSegmentFares, type NetworkDiff, type RecordDiff } from "../utils/networkDiff";
+import { routeLabel } from "../utils/routeSegments";
+
+interface GtfsImportPanelProps {
+  networkSource: NetworkSource;  // the live network the feed is compared with
+  onSaved: () => void;           // the import was written
+}
+
+const buttonStyle = {
+  padding: "4px 10px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+function DiffSection<T>({ title, diff, label }: { title: string; diff: RecordDiff<T>; label: (r: T) => string }) {
+  return (
+    <div style={{ marginBottom: 8 }}>
+      <div style={{ fontWeight: 600 }}>
+        {title}: {diff.added.length} new • {diff.changed.length} changed • {diff.removed.length} not in feed (kept)
+      </div>
+      <ul style={{ margin: "4px 0", paddingLeft: 18, fontSize: 13, maxHeight: 140, overflowY: "auto" }}>
+        {diff.added.map((r, i) => (
+          <li key={`a-${i}`} style={{ color: "green" }}>
+            + {label(r)}
+          </li>
+        ))}
+        {diff.changed.map((c, i) => (
+          <li key={`c-${i}`} style={{ color: "#b45309" }}>
+            ~ {label(c.after)} ({c.fields.join(", ")})
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Load a GTFS zip, preview what it would change in the live network and
+ * write it. The feed is compared with a fresh load, never a cached copy, so
+ * the preview is what will actually be written.
+ */
+export default function GtfsImportPanel({ networkSource, onSaved }: GtfsImportPanelProps) {
+  const [imported, setImported] = useState<GtfsImport | null>(null);
+  const [diff, setDiff] = useState<NetworkDiff | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setMessage(null);
+    setImported(null);
+    setDiff(null);
+    let feed: GtfsImport;
+    try {
+      feed = importGtfs(unzipGtfs(new Uint8Array(await file.arrayBuffer())));
+    } catch (err) {
+      console.error("Error reading GTFS:", err);
+      setMessage("That file is not a readable GTFS zip");
+      return;
+    }
+    setBusy(true);
+    try {
+      const live = await networkSource.load();
+      setImported(feed);
+      // GTFS has no segment fares; routes the feed leaves as they are keep theirs
+      const routes = keepSegmentFares(feed.routes, live.routes);
+      setDiff(diffNetwork({ stops: live.stops, routes: live.routes }, { stops: feed.stops, routes }));
+    } catch (err) {
+      console.error("Error loading network:", err);
+      setMessage("Could not load the network to compare with");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!diff) return;
+    setBusy(true);
+    try {
+      await saveNetworkChanges(diff);
+      setMessage("Import saved");
+      setImported(null);
+      setDiff(null);
+      onSaved();
+    } catch (err) {
+      console.error("Error saving import:", err);
+      setMessage("Could not save the import");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const nothingToWrite =
+    !diff ||
+    diff.stops.added.length + diff.stops.changed.length + diff.routes.added.length + diff.routes.changed.length === 0;
+
+  return (
+    <div style={{ borderTop: "1px solid #eee", paddingTop: 12, marginTop: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <span style={{ fontWeight: 600 }}>GTFS import</span>
+        <label style={{ ...buttonStyle, opacity: busy ? 0.6 : 1 }}>
+          {busy && !diff ? "Comparing…" : "Import GTFS zip…"}
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            disabled={busy}
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+
+      {message && <div style={{ marginTop: 8, fontSize: 13 }}>{message}</div>}
+
+      {/* ✅ Preview of the import before anything is written */}
+      {imported && diff && (
+        <div style={{ marginTop: 10, fontSize: 14 }}>
+          <DiffSection title="Stops" diff={diff.stops} label={(s) => s.name} />
+          <DiffSection title="Routes" diff={diff.routes} label={(r) => routeLabel(r)} />
+
+          {(imported.warnings.length > 0 || imported.rejected.length > 0) && (
+            <ul style={{ margin: "4px 0", paddingLeft: 18, fontSize: 12, color: "#b91c1c" }}>
+              {imported.warnings.map((w, i) => (
+                <li key={`w-${i}`}>{w}</li>
+              ))}
+              {imported.rejected.map((r, i) => (
+                <li key={`r-${i}`}>
+                  Skipped {r.table} {r.id ?? "row"}: {r.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={handleApply}
+            disabled={busy || nothingToWrite}
+            style={{ ...buttonStyle, background: "#6b21a8", color: "#fff", border: "none" }}
+          >
+            {busy ? "Saving…" : "Apply import"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
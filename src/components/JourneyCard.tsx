@@ -0,0 +1,325 @@
+import { useState } from "react";
+import type { Journey, JourneyBadge, JourneyLeg, VehicleEta } from "../types";
+import { formatClock } from "../utils/travelTime";
+import { fareTableFor } from "../utils/fareRules";
+import { fareReportKey, type FareEstimates } from "../utils/fareReports";
+import { itineraryText } from "../utils/itineraryText";
+import type { MessageKey } from "../utils/i18n";
+import { useI18n } from "../utils/useI18n";
+
+interface JourneyCardProps {
+  journeys: Journey[];               // alternatives, best first
+  selectedId: string;
+  onSelect: (id: string) => void;
+  fareEstimates?: FareEstimates;     // what riders have reported paying this week
+  onReportFare?: (leg: JourneyLeg, fare: number) => Promise<void>;
+  liveArrivals?: Map<number, VehicleEta>; // next live trotro at the boarding stop, by leg index
+  onStartTrip?: () => void;
+}
+
+const BADGE_LABELS: Record<JourneyBadge, MessageKey> = {
+  cheapest: "badge.cheapest",
+  shortest: "badge.shortest",
+  "fewest-changes": "badge.fewest-changes",
+  fastest: "badge.fastest",
+};
+
+export default function JourneyCard({
+  journeys,
+  selectedId,
+  onSelect,
+  fareEstimates,
+  onReportFare,
+  liveArrivals,
+  onStartTrip,
+}: JourneyCardProps) {
+  const i18n = useI18n();
+  const { t, fare: formatFare, distance: formatDistance, stopName } = i18n;
+  const journey = journeys.find((j) => j.id === selectedId) ?? journeys[0];
+  const [reportingLeg, setReportingLeg] = useState<number | null>(null);
+  const [reportText, setReportText] = useState<string>("");
+  const [reportNote, setReportNote] = useState<{ leg: number; text: string } | null>(null);
+
+  const sendReport = async (leg: JourneyLeg, idx: number) => {
+    const fare = Number(reportText);
+    if (!onReportFare || !Number.isFinite(fare) || fare <= 0) {
+      setReportNote({ leg: idx, text: t("report.enterAmount") });
+      return;
+    }
+    try {
+      await onReportFare(leg, fare);
+      setReportingLeg(null);
+      setReportText("");
+      setReportNote({ leg: idx, text: t("report.thanks") });
+    } catch (err) {
+      console.error("Error reporting fare:", err);
+      setReportNote({ leg: idx, text: t("report.failed") });
+    }
+  };
+
+  return (
+    <div
+      style={{
+        maxHeight: "40vh",
+        overflowY: "auto",
+        maxWidth: 1100,
+        margin: "0 auto",
+        background: "#fff",
+        padding: 14,
+        borderRadius: 12,
+        boxShadow: "0 8px 24px rgba(0,0,0,0.12)",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <h3 style={{ marginBottom: 8 }}>
+          {stopName(journey.path[0])} → {stopName(journey.path[journey.path.length - 1])}
+        </h3>
+        {onStartTrip && (
+          <button
+            onClick={onStartTrip}
+            style={{
+              background: "#6b21a8",
+              color: "#fff",
+              padding: "6px 14px",
+              borderRadius: 8,
+              border: "none",
+              cursor: "pointer",
+            }}
+          >
+            {t("trip.start")}
+          </button>
+        )}
+      </div>
+
+      {/* ✅ Alternatives, each with what it is best at */}
+      {journeys.length > 1 && (
+        <ul
+          aria-label={t("journey.options")}
+          style={{ margin: "0 0 10px", padding: 0, listStyle: "none", display: "flex", flexWrap: "wrap", gap: 8 }}
+        >
+          {journeys.map((j) => (
+            <li key={j.id}>
+              <button
+                onClick={() => onSelect(j.id)}
+                aria-pressed={j.id === journey.id}
+                style={{
+                  padding: "8px 10px",
+                  borderRadius: 10,
+                  cursor: "pointer",
+                  font: "inherit",
+                  color: "inherit",
+                  textAlign: "left",
+                  background: j.id === journey.id ? "#ede9fe" : "#fafafa",
+                  border: j.id === journey.id ? "2px solid #6b21a8" : "1px solid #ddd",
+                  transition: "all 0.2s ease",
+                }}
+              >
+                <span style={{ display: "block", fontWeight: 600 }}>
+                  {formatFare(j.totalFare)} • {t("journey.minutes", { count: j.totalMinutes })} •{" "}
+                  {formatDistance(j.totalDistance)} • {t("journey.changes", { count: j.transfers.length })}
+                </span>
+                <span style={{ display: "flex", gap: 4, marginTop: 4 }}>
+                  {j.badges?.map((b) => (
+                    <span
+                      key={b}
+                      style={{
+                        fontSize: 11,
+                        padding: "1px 6px",
+                        borderRadius: 6,
+                        background: "#6b21a8",
+                        color: "#fff",
+                      }}
+                    >
+                      {t(BADGE_LABELS[b])}
+                    </span>
+                  ))}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* ✅ The same journey as sentences, for screen readers */}
+      <section className="sr-only" aria-label={t("itinerary.title")}>
+        <ol>
+          {itineraryText(journey, i18n).map((line, i) => (
+            <li key={i}>{line}</li>
+          ))}
+        </ol>
+      </section>
+
+      <ol style={{ margin: 0, padding: 0, listStyle: "none" }}>
+        {journey.legs.map((leg, idx) =>
+          leg.mode === "walk" ? (
+            <li key={`walk-${idx}`}>
+              {/* ✅ Walking transfer, no trotro */}
+              <div
+                style={{
+                  padding: "8px 12px",
+                  marginBottom: 8,
+                  borderRadius: 10,
+                  border: "1px dashed #999",
+                  fontSize: 14,
+                  color: "#444",
+                }}
+              >
+                {t("journey.walk", {
+                  from: stopName(leg.from),
+                  to: stopName(leg.to),
+                  distance: formatDistance(leg.distance),
+                  minutes: Math.max(leg.minutes, 1),
+                })}
+              </div>
+            </li>
+          ) : (
+            <li key={`${leg.routeId}-${idx}`}>
+              {/* ✅ Transfer between two rides */}
+              {journey.legs[idx - 1]?.mode === "ride" && (
+                <div style={{ margin: "4px 0 8px", fontSize: 13, color: "#b45309", fontWeight: 600 }}>
+                  {t("journey.changeAt", { stop: stopName(leg.from) })}
+                </div>
+              )}
+
+              <div
+                style={{
+                  padding: "12px",
+                  marginBottom: 8,
+                  borderRadius: 10,
+                  background: "#fafafa",
+                  border: "1px solid #ddd",
+                }}
+              >
+                <div style={{ fontWeight: 700 }}>
+                  {t("journey.boardAt", { stop: stopName(leg.from) })}{" "}
+                  <span style={{ fontWeight: 400, color: "#555" }}>({leg.routeLabel})</span>
+                </div>
+
+                {/* ✅ Stops ridden on this leg with their segment fares */}
+                <ul
+                  style={{
+                    margin: "6px 0",
+                    paddingLeft: 16,
+                    fontSize: 13,
+                    color: "#444",
+                  }}
+                >
+                  {leg.hops.map((h, i) => (
+                    <li key={i}>
+                      {stopName(h.from)} → {stopName(h.to)} —{" "}
+                      <span style={{ color: "green" }}>{formatFare(h.fare)}</span>
+                    </li>
+                  ))}
+                </ul>
+
+                <div style={{ fontSize: 14 }}>
+                  {t("journey.getDownAt", { stop: stopName(leg.to) })} —{" "}
+                  <span style={{ color: "green" }}>{formatFare(leg.fare)}</span>
+                  {leg.fareSource === "reported" ? (
+                    <span style={{ fontSize: 12, color: "#555" }}> {t("journey.fromReports")}</span>
+                  ) : (
+                    leg.fare !== leg.baseFare && (
+                      <span style={{ fontSize: 12, color: "#555" }}>
+                        {" "}
+                        {t("journey.listed", { fare: formatFare(leg.baseFare) })}
+                      </span>
+                    )
+                  )}
+                </div>
+
+                {/* ✅ What riders say they paid, next to the official fare */}
+                {(() => {
+                  const estimate = fareEstimates?.get(fareReportKey(leg.routeId, leg.fromId, leg.toId));
+                  return estimate ? (
+                    <div style={{ fontSize: 12, color: "#555" }}>
+                      {t("journey.ridersPaid", { fare: formatFare(estimate.fare), count: estimate.count })}
+                    </div>
+                  ) : null;
+                })()}
+                <div style={{ fontSize: 12, color: "#555" }}>
+                  {t("journey.legStats", {
+                    distance: formatDistance(leg.distance),
+                    wait: leg.waitMinutes,
+                    ride: leg.minutes,
+                  })}
+                </div>
+
+                {/* ✅ A live trotro on its way to the boarding stop */}
+                {(() => {
+                  const live = liveArrivals?.get(idx);
+                  return live ? (
+                    <div style={{ fontSize: 12, color: "#15803d" }}>
+                      {t("journey.live", {
+                        vehicle: live.vehicleId,
+                        stop: stopName(leg.from),
+                        minutes: Math.max(1, Math.round(live.minutes)),
+                        distance: formatDistance(live.distance),
+                      })}
+                    </div>
+                  ) : null;
+                })()}
+
+                {/* ✅ "I paid ₵X from A to B" */}
+                {onReportFare && (
+                  <div style={{ marginTop: 6, fontSize: 12, display: "flex", gap: 6, alignItems: "center" }}>
+                    {reportingLeg === idx ? (
+                      <>
+                        {t("report.iPaid")}
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={reportText}
+                          onChange={(e) => setReportText(e.target.value)}
+                          style={{ width: 70, padding: "2px 6px", borderRadius: 6, border: "1px solid #ccc" }}
+                        />
+                        <button onClick={() => sendReport(leg, idx)} style={{ cursor: "pointer" }}>
+                          {t("report.send")}
+                        </button>
+                        <button onClick={() => setReportingLeg(null)} style={{ cursor: "pointer" }}>
+                          {t("common.cancel")}
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setReportingLeg(idx);
+                          setReportText(String(leg.fare));
+                          setReportNote(null);
+                        }}
+                        style={{ cursor: "pointer" }}
+                      >
+                        {t("report.open")}
+                      </button>
+                    )}
+                    {reportNote?.leg === idx && <span style={{ color: "#555" }}>{reportNote.text}</span>}
+                  </div>
+                )}
+              </div>
+            </li>
+          )
+        )}
+      </ol>
+
+      {/* ✅ Totals */}
+      <div style={{ marginTop: 6, fontWeight: 600 }}>
+        {t("journey.total")} <span style={{ color: "blue" }}>{formatFare(journey.totalFare)}</span>
+        <span style={{ fontSize: 12, fontWeight: 400, color: "#555" }}>
+          {" "}
+          {t("journey.fareTable", { version: fareTableFor(journey.departTime).version })}
+        </span>
+      </div>
+      <div style={{ fontSize: 13 }}>
+        {t("journey.times", {
+          depart: formatClock(journey.departTime),
+          arrive: formatClock(journey.arriveTime),
+          minutes: journey.totalMinutes,
+        })}
+      </div>
+      <div style={{ fontSize: 12, color: "#555" }}>
+        {formatDistance(journey.totalDistance)} • {t("journey.trotros", { count: journey.totalStops })} •{" "}
+        {t("journey.changes", { count: journey.transfers.length })}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,31 @@
-import { useEffect, useState } from "react";
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from "react-leaflet";
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker, useMap, useMapEvents } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
-import axios from "axios";
+import { straightLineProvider, type RoutingProvider } from "../lib/routingProviders";
+import { TILE_ATTRIBUTION, TILE_URL } from "../lib/mapTiles";
+import { useI18n } from "../utils/useI18n";
 
 type LatLng = [number, number];
 
+export interface MapLeg {
+  coords: LatLng[];              // [lat,lng] in ride order
+  stops?: string[];              // stop names matching coords, for popups
+  routeCoords?: LatLng[];        // the whole route, drawn faintly behind the ridden part
+  walk?: boolean;                // walking leg: dashed, never road-routed
+}
+
 interface MapViewProps {
-  stopsCoords: LatLng[];         // [lat,lng] in order
-  useRoadRouting?: boolean;      // if true, attempt ORS routing
+  legs: MapLeg[];                // one entry per ride, drawn in its own colour
+  useRoadRouting?: boolean;      // if true, draw rides along roads with routingProvider
+  routingProvider?: RoutingProvider;
+  places?: { label: string; coords: LatLng }[]; // picked spots that are not stops
+  onMapClick?: (coords: LatLng) => void;
+  children?: ReactNode;          // extra layers, drawn under the journey
+  controls?: ReactNode;          // panels shown over the map's top-right corner
 }
 
+const LEG_COLORS = ["purple", "#ea580c", "#0284c7", "#16a34a", "#db2777"];
+
 function FitBounds({ coords }: { coords: LatLng[] }) {
   const map = useMap();
   useEffect(() => {
@@ -20,69 +36,162 @@ function FitBounds({ coords }: { coords: LatLng[] }) {
   return null;
 }
 
-export default function MapView({ stopsCoords, useRoadRouting = false }: MapViewProps) {
-  const [roadLine, setRoadLine] = useState<LatLng[] | null>(null);
-  const center: LatLng = stopsCoords[0] ?? [5.65, -0.16];
+function ClickHandler({ onClick }: { onClick: (coords: LatLng) => void }) {
+  useMapEvents({
+    click: (e) => onClick([e.latlng.lat, e.latlng.lng]),
+  });
+  return null;
+}
+
+export default function MapView({
+  legs,
+  useRoadRouting = false,
+  routingProvider = straightLineProvider,
+  places = [],
+  onMapClick,
+  children,
+  controls,
+}: MapViewProps) {
+  const { t, stopName } = useI18n();
+  const [roadLines, setRoadLines] = useState<(LatLng[] | null)[]>([]);
+  const [lineStatus, setLineStatus] = useState<"idle" | "loading" | "done">("idle");
+  const [failedLegs, setFailedLegs] = useState<number>(0);
+  const provider = useRoadRouting ? routingProvider : straightLineProvider;
+  const allCoords = useMemo(() => legs.flatMap((l) => l.coords), [legs]);
+  const center: LatLng = allCoords[0] ?? [5.65, -0.16];
 
   useEffect(() => {
-    setRoadLine(null);
-    if (!useRoadRouting) return;
-
-    const key = (import.meta.env.VITE_ORS_API_KEY as string) || "";
-    if (!key) {
-      console.warn("VITE_ORS_API_KEY not set — falling back to straight lines");
-      return;
-    }
-
-    if (!stopsCoords || stopsCoords.length < 2) return;
-
-    // Build ORS coordinates: [[lng,lat], ...]
-    const coordList = stopsCoords.map((c) => [c[1], c[0]]); // [lng, lat]
-
-    const fetchRoute = async () => {
-      try {
-        const url = "https://api.openrouteservice.org/v2/directions/driving-car/geojson";
-        const body = { coordinates: coordList };
-        const resp = await axios.post(url, body, {
-          headers: { Authorization: key, "Content-Type": "application/json" },
-        });
-        // geometry is a LineString coordinates array of [lng, lat] pairs
-        const geom = resp.data?.features?.[0]?.geometry?.coordinates;
-        if (Array.isArray(geom)) {
-          const line: LatLng[] = geom.map((pt: [number, number]) => [pt[1], pt[0]]);
-          setRoadLine(line);
-        } else {
-          console.warn("ORS returned unexpected geometry, falling back to straight polyline");
+    setRoadLines([]);
+    setFailedLegs(0);
+    setLineStatus("idle");
+    if (provider === straightLineProvider || !legs.some((l) => l.coords.length >= 2)) return;
+
+    // a newer journey or provider aborts requests still out for this one
+    const controller = new AbortController();
+    setLineStatus("loading");
+    Promise.all(
+      legs.map(async (l) => {
+        if (l.walk || l.coords.length < 2) return null;
+        try {
+          return await provider.route(l.coords, controller.signal);
+        } catch (err) {
+          if (!controller.signal.aborted) console.error(`${provider.label} routing error:`, err);
+          return undefined;
         }
-      } catch (err) {
-        console.error("ORS routing error:", err);
-      }
-    };
+      })
+    ).then((lines) => {
+      if (controller.signal.aborted) return;
+      setRoadLines(lines.map((line) => line ?? null));
+      setFailedLegs(lines.filter((line) => line === undefined).length);
+      setLineStatus("done");
+    });
+
+    return () => controller.abort();
+  }, [legs, provider]);
+
+  const fitCoords = useMemo(
+    () => legs.flatMap((l, i) => roadLines[i] ?? l.coords),
+    [legs, roadLines]
+  );
 
-    fetchRoute();
-  }, [stopsCoords, useRoadRouting]);
+  const providerNote =
+    lineStatus === "loading"
+      ? t("map.loadingRoads", { provider: provider.label })
+      : failedLegs > 0
+        ? t("map.linesSomeStraight", { provider: provider.label, count: failedLegs })
+        : t("map.lines", { provider: provider.label });
 
   return (
-    <MapContainer center={center} zoom={12} style={{ height: "100%", width: "100%" }}>
-      <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" attribution="&copy; OpenStreetMap contributors" />
-
-      {/* markers for each stop */}
-      {stopsCoords.map((pos, i) => (
-        <Marker key={i} position={pos}>
-          <Popup>
-            {i === 0 ? "Start" : i === stopsCoords.length - 1 ? "Destination" : `Stop ${i}`}
-          </Popup>
-        </Marker>
-      ))}
-
-      {/* road line if available, otherwise straight connections */}
-      {roadLine && roadLine.length > 1 ? (
-        <Polyline positions={roadLine} color="purple" weight={20} opacity={0.9} />
-      ) : (
-        stopsCoords.length > 1 && <Polyline positions={stopsCoords} color="purple" weight={4} />
-      )}
+    <div style={{ position: "relative", height: "100%", width: "100%" }}>
+      <MapContainer center={center} zoom={12} style={{ height: "100%", width: "100%" }}>
+        {/* CORS requests, so the service worker gets tiles it can read and cache */}
+        <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} crossOrigin />
+
+        {children}
+
+        {/* markers for each stop; a transfer stop is shared by two legs, so draw it once */}
+        {legs.map((leg, li) =>
+          leg.coords.map((pos, i) => {
+            if (li > 0 && i === 0) return null;
+            const isStart = li === 0 && i === 0;
+            const isEnd = li === legs.length - 1 && i === leg.coords.length - 1;
+            const isTransfer = !isEnd && i === leg.coords.length - 1;
+            const name = leg.stops?.[i];
+            const label = isStart
+              ? t("map.start")
+              : isEnd
+                ? t("map.destination")
+                : isTransfer
+                  ? t("map.change")
+                  : t("map.stop", { n: i });
+            return (
+              <Marker key={`${li}-${i}`} position={pos}>
+                <Popup>{name ? `${label}: ${stopName(name)}` : label}</Popup>
+              </Marker>
+            );
+          })
+        )}
+
+        {/* full routes behind the ridden parts, so boarding midway is visible */}
+        {legs.map((leg, i) =>
+          leg.routeCoords && leg.routeCoords.length > 1 ? (
+            <Polyline
+              key={`route-${i}`}
+              positions={leg.routeCoords}
+              color={LEG_COLORS[i % LEG_COLORS.length]}
+              weight={3}
+              opacity={0.25}
+              dashArray="4 6"
+            />
+          ) : null
+        )}
+
+        {/* road line per leg if available, otherwise straight connections */}
+        {legs.map((leg, i) => {
+          if (leg.walk) {
+            return <Polyline key={i} positions={leg.coords} color="#555" weight={4} dashArray="2 8" />;
+          }
+          const color = LEG_COLORS[i % LEG_COLORS.length];
+          const road = roadLines[i];
+          if (road && road.length > 1) {
+            return <Polyline key={i} positions={road} color={color} weight={6} opacity={0.9} />;
+          }
+          return leg.coords.length > 1 ? (
+            <Polyline key={i} positions={leg.coords} color={color} weight={4} />
+          ) : null;
+        })}
 
-      <FitBounds coords={roadLine ?? stopsCoords} />
-    </MapContainer>
+        {/* picked places (my location, dropped pins) */}
+        {places.map((p, i) => (
+          <CircleMarker key={`place-${i}`} center={p.coords} radius={8} color="#b45309" fillOpacity={0.8}>
+            <Popup>{p.label}</Popup>
+          </CircleMarker>
+        ))}
+
+        {onMapClick && <ClickHandler onClick={onMapClick} />}
+
+        <FitBounds coords={fitCoords} />
+      </MapContainer>
+
+      {controls && <div style={{ position: "absolute", top: 10, right: 10, zIndex: 1000 }}>{controls}</div>}
+
+      {/* which provider drew the lines */}
+      {legs.length > 0 && (
+        <div
+          style={{
+            position: "absolute",
+            left: 10,
+            bottom: 24,
+            zIndex: 1000,
+            background: "rgba(255,255,255,0.9)",
+            padding: "2px 8px",
+            borderRadius: 6,
+            fontSize: 12,
+          }}
+        >
+          {providerNote}
+        </div>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState } from "react";
+import { CircleMarker, Marker, Polyline, Popup, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import type { Stop, Route } from "../types";
+import { clusterPoints } from "../utils/clusterPoints";
+import { applyFareRules, type FareContext } from "../utils/fareRules";
+import { routeLabel, routeStopCoords, routeStopKeys } from "../utils/routeSegments";
+import type { MessageKey } from "../utils/i18n";
+import { useI18n } from "../utils/useI18n";
+
+interface NetworkOverviewProps {
+  stops: Stop[];
+  routes: Route[];
+  onSetFrom: (stop: Stop) => void;
+  onSetTo: (stop: Stop) => void;
+  fareContext: FareContext;      // who is riding, for the fares in popups
+  fareTime?: number;             // when they ride; now when omitted
+  fitToNetwork?: boolean;        // zoom to the whole network when it loads
+}
+
+const ROUTE_COLORS = ["#7c3aed", "#0891b2", "#ca8a04", "#dc2626", "#059669", "#2563eb", "#c026d3", "#ea580c"];
+
+const DIRECTION_LABELS: Record<NonNullable<Route["direction"]>, MessageKey> = {
+  outbound: "direction.outbound",
+  inbound: "direction.inbound",
+};
+
+/** Variants of one line share a pattern id; a route without one is a line of its own */
+const lineOf = (route: Route) => route.patternId ?? route.id;
+
+function clusterIcon(count: number) {
+  const size = count < 10 ? 28 : count < 100 ? 34 : 40;
+  return L.divIcon({
+    className: "",
+    iconSize: [size, size],
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:rgba(107,33,168,0.85);color:#fff;display:flex;align-items:center;justify-content:center;font:600 12px sans-serif;border:2px solid #fff">${count}</div>`,
+  });
+}
+
+const actionStyle = {
+  padding: "2px 8px",
+  borderRadius: 6,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+/**
+ * Every stop and route of the network, drawn inside a MapView. Nearby stops
+ * merge into one numbered marker that splits up as the map zooms in, and
+ * never at the closest zoom; a stop's popup lists the routes through it with
+ * what the rider would pay, and can fill From or To.
+ */
+export default function NetworkOverview({
+  stops,
+  routes,
+  onSetFrom,
+  onSetTo,
+  fareContext,
+  fareTime,
+  fitToNetwork,
+}: NetworkOverviewProps) {
+  const map = useMap();
+  const { t, fare, stopName } = useI18n();
+  const [zoom, setZoom] = useState<number>(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  useEffect(() => {
+    if (fitToNetwork && stops.length > 1) map.fitBounds(stops.map((s) => s.coords), { padding: [40, 40] });
+  }, [map, stops, fitToNetwork]);
+
+  // routes through each stop, by stop id (or name, for routes without ids)
+  const routesByStop = useMemo(() => {
+    const served = new Map<string, Route[]>();
+    for (const r of routes) {
+      for (const key of new Set(routeStopKeys(r))) {
+        const list = served.get(key) ?? [];
+        list.push(r);
+        served.set(key, list);
+      }
+    }
+    // variants of the same line next to each other, outbound first
+    for (const list of served.values()) {
+      const inbound = (r: Route) => (r.direction === "inbound" ? 1 : 0);
+      list.sort((a, b) => lineOf(a).localeCompare(lineOf(b)) || inbound(a) - inbound(b));
+    }
+    return served;
+  }, [routes]);
+
+  // one colour per line, so a line's outbound and inbound variants read as one
+  const lineColors = useMemo(() => {
+    const lines = [...new Set(routes.map(lineOf))];
+    return new Map(lines.map((line, i) => [line, ROUTE_COLORS[i % ROUTE_COLORS.length]]));
+  }, [routes]);
+
+  const pick = (set: (stop: Stop) => void, stop: Stop) => {
+    set(stop);
+    map.closePopup();
+  };
+
+  // at the closest zoom every stop is drawn on its own, however near the next one
+  const clusters = useMemo(
+    () =>
+      zoom >= map.getMaxZoom()
+        ? stops.map((s) => ({ items: [s], coords: s.coords }))
+        : clusterPoints(stops, (coords) => {
+            const p = map.project(coords, zoom);
+            return [p.x, p.y];
+          }),
+    [map, stops, zoom]
+  );
+
+  return (
+    <>
+      {routes.map((r) => (
+        <Polyline
+          key={`overview-${r.id}`}
+          positions={routeStopCoords(r)}
+          color={lineColors.get(lineOf(r))}
+          weight={3}
+          opacity={0.55}
+        />
+      ))}
+
+      {clusters.map((c) => {
+        if (c.items.length > 1) {
+          return (
+            <Marker
+              key={`cluster-${c.items[0].id}`}
+              position={c.coords}
+              icon={clusterIcon(c.items.length)}
+              eventHandlers={{ click: () => map.setView(c.coords, Math.min(zoom + 2, map.getMaxZoom())) }}
+            />
+          );
+        }
+
+        const stop = c.items[0];
+        const serving = routesByStop.get(stop.id) ?? routesByStop.get(stop.name) ?? [];
+        return (
+          <CircleMarker key={`stop-${stop.id}`} center={stop.coords} radius={6} color="#6b21a8" fillOpacity={0.9}>
+            <Popup>
+              <div style={{ fontWeight: 700, marginBottom: 4 }}>{stopName(stop.name)}</div>
+              {serving.length > 0 ? (
+                <ul style={{ margin: "0 0 6px", paddingLeft: 16 }}>
+                  {serving.map((r) => (
+                    <li key={r.id}>
+                      <span style={{ color: lineColors.get(lineOf(r)) }}>●</span> {routeLabel(r)}
+                      {r.direction && <span style={{ color: "#555" }}> ({t(DIRECTION_LABELS[r.direction])})</span>} —{" "}
+                      {fare(applyFareRules(r.fare, fareContext, fareTime ?? Date.now()))}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div style={{ marginBottom: 6, color: "#555" }}>{t("overview.noRoutes")}</div>
+              )}
+              <div style={{ display: "flex", gap: 6 }}>
+                <button onClick={() => pick(onSetFrom, stop)} style={actionStyle}>
+                  {t("overview.setFrom")}
+                </button>
+                <button onClick={() => pick(onSetTo, stop)} style={actionStyle}>
+                  {t("overview.setTo")}
+                </button>
+              </div>
+            </Popup>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+}
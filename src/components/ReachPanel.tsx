@@ -0,0 +1,102 @@
+import type { ReachMeasure } from "../types";
+import type { MessageKey } from "../utils/i18n";
+import { DEFAULT_REACH_BUDGETS, MAX_REACH_BUDGETS } from "../utils/routingEngine";
+import { useI18n } from "../utils/useI18n";
+
+interface ReachPanelProps {
+  measure: ReachMeasure;
+  limit: number;
+  count: number;                     // stops within reach
+  hasOrigin: boolean;                // From is set to a stop or place
+  onChange: (measure: ReachMeasure, limit: number) => void;
+  onClose: () => void;
+}
+
+/** Slider range for each kind of budget */
+const SLIDERS: Record<ReachMeasure, { max: number; step: number; label: MessageKey }> = {
+  fare: { max: MAX_REACH_BUDGETS.fare, step: 0.5, label: "reach.measure.fare" },
+  distance: { max: MAX_REACH_BUDGETS.distance, step: 0.5, label: "reach.measure.distance" },
+  changes: { max: MAX_REACH_BUDGETS.changes, step: 1, label: "reach.measure.changes" },
+};
+
+const buttonStyle = {
+  padding: "2px 8px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+/** Budget slider for the reachability map, shown over the map's corner */
+export default function ReachPanel({ measure, limit, count, hasOrigin, onChange, onClose }: ReachPanelProps) {
+  const { t, fare, distance } = useI18n();
+  const slider = SLIDERS[measure];
+  const limitText =
+    measure === "fare"
+      ? t("reach.limit.fare", { fare: fare(limit) })
+      : measure === "distance"
+        ? t("reach.limit.distance", { distance: distance(limit) })
+        : t("reach.limit.changes", { count: limit });
+
+  return (
+    <div
+      style={{
+        width: 230,
+        background: "#fff",
+        padding: 10,
+        borderRadius: 10,
+        boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        fontSize: 13,
+        display: "grid",
+        gap: 6,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <strong>{t("reach.title")}</strong>
+        <button onClick={onClose} style={buttonStyle}>
+          {t("common.close")}
+        </button>
+      </div>
+
+      <select
+        value={measure}
+        onChange={(e) => {
+          const next = e.target.value as ReachMeasure;
+          onChange(next, DEFAULT_REACH_BUDGETS[next]);
+        }}
+      >
+        {(Object.keys(SLIDERS) as ReachMeasure[]).map((m) => (
+          <option key={m} value={m}>
+            {t(SLIDERS[m].label)}
+          </option>
+        ))}
+      </select>
+
+      <input
+        type="range"
+        min={0}
+        max={slider.max}
+        step={slider.step}
+        value={limit}
+        onChange={(e) => onChange(measure, Number(e.target.value))}
+        aria-label={t(slider.label)}
+        aria-valuetext={limitText}
+      />
+      <div style={{ fontWeight: 600 }}>{limitText}</div>
+
+      {/* colour key: the same grades as the markers */}
+      <div
+        aria-hidden="true"
+        style={{
+          height: 8,
+          borderRadius: 4,
+          background: "linear-gradient(to right, hsl(120, 75%, 40%), hsl(60, 75%, 40%), hsl(0, 75%, 40%))",
+        }}
+      />
+
+      <div role="status" style={{ color: "#555" }}>
+        {hasOrigin ? t("reach.count", { count }) : t("reach.needOrigin")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { CircleMarker, Popup, useMap } from "react-leaflet";
+import type { ReachableStop, ReachMeasure } from "../types";
+import { reachCost } from "../utils/routingEngine";
+import { useI18n } from "../utils/useI18n";
+
+interface ReachabilityLayerProps {
+  reachable: ReachableStop[];
+  measure: ReachMeasure;
+  limit: number;                     // the budget the stops were found within
+  onSetTo: (stopId: string) => void;
+}
+
+/** Green for stops that use little of the budget, through yellow, to red at the limit */
+function reachColor(used: number): string {
+  const hue = Math.round(120 * (1 - Math.min(Math.max(used, 0), 1)));
+  return `hsl(${hue}, 75%, 40%)`;
+}
+
+/**
+ * Stops reachable within a budget, drawn inside a MapView and coloured by
+ * how much of the budget getting there takes.
+ */
+export default function ReachabilityLayer({ reachable, measure, limit, onSetTo }: ReachabilityLayerProps) {
+  const map = useMap();
+  const { t, fare, distance, stopName } = useI18n();
+
+  return (
+    <>
+      {reachable.map((s) => {
+        const color = reachColor(limit > 0 ? reachCost(s, measure) / limit : 0);
+        return (
+          <CircleMarker
+            key={s.stopId}
+            center={s.coords}
+            radius={9}
+            // pathOptions, unlike plain props, are re-applied when the budget recolours a marker
+            pathOptions={{ color: "#fff", weight: 2, fillColor: color, fillOpacity: 0.9 }}
+          >
+            <Popup>
+              <div style={{ fontWeight: 600 }}>{stopName(s.name)}</div>
+              <div style={{ fontSize: 12 }}>
+                {fare(s.fare)} • {distance(s.distance)} • {t("journey.changes", { count: s.changes })} •{" "}
+                {t("journey.minutes", { count: s.minutes })}
+              </div>
+              <button
+                onClick={() => {
+                  onSetTo(s.stopId);
+                  map.closePopup();
+                }}
+                style={{
+                  marginTop: 6,
+                  padding: "2px 8px",
+                  borderRadius: 6,
+                  border: "1px solid #ccc",
+                  background: "#fff",
+                  cursor: "pointer",
+                }}
+              >
+                {t("overview.setTo")}
+              </button>
+            </Popup>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+}
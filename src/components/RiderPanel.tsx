@@ -0,0 +1,196 @@
+import { useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import type { Stop, RiderData, SavedTrip } from "../types";
+import SignInForm from "./SignInForm";
+import { signOut } from "../lib/auth";
+import { isFavourite, removePlace, savePlace, toggleFavourite } from "../utils/riderData";
+import { useI18n } from "../utils/useI18n";
+
+interface RiderPanelProps {
+  user: User | null;
+  data: RiderData;
+  stops: Stop[];
+  fromStopId: string | null;     // the current From, when it is a stop
+  toStopId: string | null;
+  onChange: (data: RiderData) => void;
+  onPickTrip: (trip: SavedTrip) => void;
+  onPickPlace: (stopId: string, end: "from" | "to") => void;
+  onClose: () => void;
+}
+
+const buttonStyle = {
+  padding: "2px 8px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+const linkStyle = {
+  background: "none",
+  border: "none",
+  padding: 0,
+  color: "#6b21a8",
+  cursor: "pointer",
+  textAlign: "left" as const,
+};
+
+/** Saved places, pinned trips and recent searches, plus signing in to keep them */
+export default function RiderPanel({
+  user,
+  data,
+  stops,
+  fromStopId,
+  toStopId,
+  onChange,
+  onPickTrip,
+  onPickPlace,
+  onClose,
+}: RiderPanelProps) {
+  const { t, stopName } = useI18n();
+  const [label, setLabel] = useState<string>("Home");
+  const [stopId, setStopId] = useState<string>("");
+  const [signOutError, setSignOutError] = useState<string | null>(null);
+
+  const names = new Map(stops.map((s) => [s.id, stopName(s.name)]));
+  // entries pointing at stops that have since left the network are hidden, not deleted
+  const places = data.places.filter((p) => names.has(p.stopId));
+  const known = (trip: SavedTrip) => names.has(trip.fromId) && names.has(trip.toId);
+  const tripName = (trip: SavedTrip) => `${names.get(trip.fromId)} → ${names.get(trip.toId)}`;
+  const canPin = fromStopId !== null && toStopId !== null && fromStopId !== toStopId;
+  const pinned = canPin && isFavourite(data, fromStopId, toStopId);
+
+  const handleSavePlace = () => {
+    const target = stopId || fromStopId;
+    if (!label.trim() || !target) return;
+    onChange(savePlace(data, label, target));
+    setStopId("");
+  };
+
+  const handleSignOut = () => {
+    setSignOutError(null);
+    signOut().catch((err) => {
+      console.error("Sign-out failed:", err);
+      setSignOutError(t("rider.signOutFailed"));
+    });
+  };
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto 8px",
+        background: "#fff",
+        padding: 14,
+        borderRadius: 12,
+        boxShadow: "0 8px 24px rgba(0,0,0,0.06)",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+        <strong>{t("rider.title")}</strong>
+        <button onClick={onClose} style={buttonStyle}>
+          {t("common.close")}
+        </button>
+      </div>
+
+      {/* Account */}
+      {user ? (
+        <div style={{ marginBottom: 10 }}>
+          {t("rider.signedInAs", { email: user.email ?? "" })}{" "}
+          <button onClick={handleSignOut} style={buttonStyle}>
+            {t("rider.signOut")}
+          </button>
+          {signOutError && <div style={{ color: "crimson", fontSize: 13 }}>{signOutError}</div>}
+        </div>
+      ) : (
+        <div style={{ marginBottom: 10 }}>
+          <div style={{ color: "#555", marginBottom: 6 }}>{t("rider.deviceOnly")}</div>
+          <SignInForm allowSignUp compact />
+        </div>
+      )}
+
+      {/* Saved places */}
+      <div style={{ fontWeight: 600 }}>{t("rider.places")}</div>
+      <ul style={{ margin: "4px 0 8px", paddingLeft: 18 }}>
+        {places.map((p) => (
+          <li key={p.label}>
+            {p.label}: {names.get(p.stopId)}{" "}
+            <button onClick={() => onPickPlace(p.stopId, "from")} style={buttonStyle}>
+              {t("rider.from")}
+            </button>{" "}
+            <button onClick={() => onPickPlace(p.stopId, "to")} style={buttonStyle}>
+              {t("rider.to")}
+            </button>{" "}
+            <button
+              onClick={() => onChange(removePlace(data, p.label))}
+              title={t("rider.forget")}
+              style={buttonStyle}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginBottom: 10 }}>
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={t("rider.labelPlaceholder")}
+          style={{ width: 90 }}
+        />
+        <select value={stopId} onChange={(e) => setStopId(e.target.value)}>
+          <option value="">
+            {fromStopId ? t("rider.currentFrom", { stop: names.get(fromStopId) ?? "" }) : t("rider.chooseStop")}
+          </option>
+          {stops.map((s) => (
+            <option key={s.id} value={s.id}>
+              {stopName(s.name)}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleSavePlace} disabled={!stopId && !fromStopId} style={buttonStyle}>
+          {t("rider.savePlace")}
+        </button>
+      </div>
+
+      {/* Favourite trips */}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <span style={{ fontWeight: 600 }}>{t("rider.favourites")}</span>
+        {canPin && (
+          <button onClick={() => onChange(toggleFavourite(data, fromStopId, toStopId))} style={buttonStyle}>
+            {pinned ? t("rider.unpin") : t("rider.pin")}
+          </button>
+        )}
+      </div>
+      <ul style={{ margin: "4px 0 8px", paddingLeft: 18 }}>
+        {data.favourites.filter(known).map((trip) => (
+          <li key={`${trip.fromId}-${trip.toId}`}>
+            <button onClick={() => onPickTrip(trip)} style={linkStyle}>
+              {tripName(trip)}
+            </button>{" "}
+            <button
+              onClick={() => onChange(toggleFavourite(data, trip.fromId, trip.toId))}
+              title={t("rider.unpin")}
+              style={buttonStyle}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {/* Recent searches */}
+      <div style={{ fontWeight: 600 }}>{t("rider.recent")}</div>
+      <ul style={{ margin: "4px 0 0", paddingLeft: 18 }}>
+        {data.recent.filter(known).map((trip) => (
+          <li key={`${trip.fromId}-${trip.toId}`}>
+            <button onClick={() => onPickTrip(trip)} style={linkStyle}>
+              {tripName(trip)}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
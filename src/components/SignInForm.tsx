@@ -0,0 +1,72 @@
+import { useState, type FormEvent } from "react";
+import { signInWithPassword, signUpWithPassword } from "../lib/auth";
+import { useI18n } from "../utils/useI18n";
+
+interface SignInFormProps {
+  allowSignUp?: boolean;          // riders can make an account; operators are invited
+  compact?: boolean;              // inline in a panel rather than centred on the page
+}
+
+const buttonStyle = {
+  padding: "4px 10px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+/** Email and password sign-in; the signed-in user arrives through onUserChange */
+export default function SignInForm({ allowSignUp = false, compact = false }: SignInFormProps) {
+  const { t } = useI18n();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      await signInWithPassword(email, password);
+    } catch (err) {
+      console.error("Sign-in failed:", err);
+      setMessage(t("auth.wrongPassword"));
+    }
+  };
+
+  const handleSignUp = async () => {
+    setMessage(null);
+    try {
+      const user = await signUpWithPassword(email, password);
+      if (!user) setMessage(t("auth.checkEmail"));
+    } catch (err) {
+      console.error("Sign-up failed:", err);
+      setMessage(err instanceof Error ? err.message : t("auth.signUpFailed"));
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{ maxWidth: 320, margin: compact ? 0 : "40px auto", display: "grid", gap: 8 }}
+    >
+      <input type="email" placeholder={t("auth.email")} value={email} onChange={(e) => setEmail(e.target.value)} />
+      <input
+        type="password"
+        placeholder={t("auth.password")}
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+      <div style={{ display: "flex", gap: 6 }}>
+        <button type="submit" style={buttonStyle}>
+          {t("auth.signIn")}
+        </button>
+        {allowSignUp && (
+          <button type="button" onClick={handleSignUp} style={buttonStyle}>
+            {t("auth.createAccount")}
+          </button>
+        )}
+      </div>
+      {message && <div style={{ color: "crimson", fontSize: 13 }}>{message}</div>}
+    </form>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import type { Stop } from "../types";
+import type { StopMatch } from "../utils/stopSearch";
+import { useI18n } from "../utils/useI18n";
+
+interface StopPickerProps {
+  id: string;                         // prefix for the listbox and option element ids
+  label: string;                      // accessible name of the input
+  placeholder: string;
+  value: string;
+  suggestions: (text: string) => StopMatch[];
+  onChange: (text: string) => void;   // the rider typed
+  onPick: (stop: Stop) => void;       // the rider chose a suggestion
+}
+
+/**
+ * Text input with stop suggestions, following the ARIA combobox pattern:
+ * arrow keys move through the list, Enter picks, Escape closes (and clears
+ * when already closed), and the number of matches is announced.
+ */
+export default function StopPicker({ id, label, placeholder, value, suggestions, onChange, onPick }: StopPickerProps) {
+  const { t, stopName } = useI18n();
+  const [open, setOpen] = useState<boolean>(false);
+  const [active, setActive] = useState<number>(-1);
+
+  const matches = open && value ? suggestions(value) : [];
+  const expanded = matches.length > 0;
+  const listId = `${id}-listbox`;
+  const optionId = (i: number) => `${id}-option-${i}`;
+
+  useEffect(() => {
+    if (active >= 0) document.getElementById(optionId(active))?.scrollIntoView({ block: "nearest" });
+  });
+
+  const pick = (m: StopMatch) => {
+    onPick(m.stop);
+    setOpen(false);
+    setActive(-1);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        if (!open) setOpen(true);
+        else if (expanded) setActive((active + 1) % matches.length);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        if (!open) setOpen(true);
+        else if (expanded) setActive(active <= 0 ? matches.length - 1 : active - 1);
+        break;
+      case "Enter":
+        if (expanded && active >= 0 && matches[active]) {
+          e.preventDefault();
+          pick(matches[active]);
+        }
+        break;
+      case "Escape":
+        if (expanded) {
+          setOpen(false);
+          setActive(-1);
+        } else if (value) {
+          onChange("");
+        }
+        break;
+    }
+  };
+
+  return (
+    <div style={{ position: "relative" }}>
+      <input
+        type="text"
+        role="combobox"
+        aria-label={label}
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-activedescendant={expanded && active >= 0 ? optionId(active) : undefined}
+        autoComplete="off"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setActive(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          setOpen(false);
+          setActive(-1);
+        }}
+        style={{
+          padding: "6px 10px",
+          borderRadius: 8,
+          border: "1px solid #ccc",
+          width: 160,
+          maxWidth: "40vw", // ✅ shrink on small screens
+        }}
+      />
+      <ul
+        id={listId}
+        role="listbox"
+        aria-label={label}
+        hidden={!expanded}
+        style={{
+          position: "absolute",
+          top: "100%",
+          left: 0,
+          right: 0,
+          background: "#68439bff",
+          borderRadius: 6,
+          margin: 0,
+          padding: 0,
+          listStyle: "none",
+          maxHeight: 150,
+          overflowY: "auto",
+          zIndex: 1000,
+        }}
+      >
+        {matches.map((m, i) => (
+          <li
+            key={m.stop.id}
+            id={optionId(i)}
+            role="option"
+            aria-selected={i === active}
+            // keep focus in the input so blur does not close the list before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => pick(m)}
+            style={{
+              padding: "6px 10px",
+              cursor: "pointer",
+              background: i === active ? "#4c1d95" : undefined,
+              outline: i === active ? "2px solid #fff" : undefined,
+              outlineOffset: -2,
+            }}
+          >
+            {stopName(m.stop.name)}
+            {m.matched && <span style={{ opacity: 0.75 }}> ({m.matched})</span>}
+          </li>
+        ))}
+      </ul>
+      {/* ✅ Announced as the rider types */}
+      <div className="sr-only" aria-live="polite">
+        {open && value ? (expanded ? t("picker.results", { count: matches.length }) : t("picker.none")) : ""}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Journey } from "../types";
+import type { LocationProvider } from "../lib/geolocation";
+import { advanceGuide, guideStops, OFF_ROUTE_KM, upcomingAlight, type GuideProgress } from "../utils/tripGuide";
+import { useI18n } from "../utils/useI18n";
+
+interface TripGuideProps {
+  journey: Journey;
+  locationProvider: LocationProvider;
+  onPosition?: (coords: [number, number]) => void;  // to show the rider on the map
+  onReplan: (coords: [number, number]) => void;      // plan again from here to the same destination
+  onExit: () => void;
+}
+
+const buttonStyle = {
+  padding: "6px 12px",
+  borderRadius: 8,
+  border: "1px solid #ccc",
+  background: "#fff",
+  cursor: "pointer",
+};
+
+/** Buzz and, when allowed, show a system notification; the card shows the same text regardless */
+function alertRider(title: string, text: string) {
+  navigator.vibrate?.([300, 150, 300]);
+  if ("Notification" in window && Notification.permission === "granted") {
+    new Notification(title, { body: text });
+  }
+}
+
+/** Follows the rider along the selected journey and warns one stop before each get-down */
+export default function TripGuide({ journey, locationProvider, onPosition, onReplan, onExit }: TripGuideProps) {
+  const { t, distance: formatDistance, stopName } = useI18n();
+  const stops = useMemo(() => guideStops(journey), [journey]);
+  const [progress, setProgress] = useState<GuideProgress>({ passed: -1, offRouteKm: 0 });
+  const [position, setPosition] = useState<[number, number] | null>(null);
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const alerted = useRef<Set<number>>(new Set());
+
+  // reported positions arrive through a callback, so the latest callback is kept in a ref
+  const reportPosition = useRef(onPosition);
+  useEffect(() => {
+    reportPosition.current = onPosition;
+  });
+
+  useEffect(() => {
+    if ("Notification" in window && Notification.permission === "default") {
+      Notification.requestPermission().catch(() => {});
+    }
+  }, []);
+
+  useEffect(() => {
+    return locationProvider.watchPosition(
+      (coords) => {
+        setPosition(coords);
+        setLocationError(null);
+        reportPosition.current?.(coords);
+        setProgress((prev) => advanceGuide(stops, prev.passed, coords));
+      },
+      (err) => setLocationError(err.message)
+    );
+  }, [locationProvider, stops]);
+
+  const { passed, offRouteKm } = progress;
+  const upcoming = upcomingAlight(stops, passed);
+  useEffect(() => {
+    if (!upcoming || alerted.current.has(passed)) return;
+    alerted.current.add(passed);
+    const stop = stopName(upcoming.stop.name);
+    const text = upcoming.change ? t("trip.getDownNextChange", { stop }) : t("trip.getDownNext", { stop });
+    alertRider(t("app.title"), text);
+  }, [upcoming, passed, t, stopName]);
+
+  const current = passed >= 0 ? stops[passed] : null;
+  const next = stops[passed + 1] ?? null;
+  const arrived = current?.final ?? false;
+  const offRoute = position !== null && !arrived && offRouteKm > OFF_ROUTE_KM;
+  const leg = journey.legs[next?.legIndex ?? current?.legIndex ?? 0];
+
+  return (
+    <div
+      style={{
+        maxWidth: 1100,
+        margin: "0 auto",
+        background: "#fff",
+        padding: 14,
+        borderRadius: 12,
+        boxShadow: "0 8px 24px rgba(0,0,0,0.06)",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+        <strong>
+          {arrived
+            ? t("trip.arrived")
+            : leg?.mode === "walk"
+              ? t("trip.walking")
+              : t("trip.onRoute", { route: leg?.routeLabel ?? t("trip.yourTrotro") })}
+        </strong>
+        <button onClick={onExit} style={buttonStyle}>
+          {t("trip.end")}
+        </button>
+      </div>
+
+      {!position && !locationError && <div style={{ color: "#555" }}>{t("trip.finding")}</div>}
+      {locationError && <div style={{ color: "crimson" }}>{locationError}</div>}
+
+      {position && !arrived && (
+        <div style={{ display: "grid", gap: 4 }}>
+          <div>
+            {t("trip.lastStop")} <strong>{current ? stopName(current.name) : t("trip.notAtStop")}</strong>
+          </div>
+          {next && (
+            <div>
+              {t("trip.nextStop")} <strong>{stopName(next.name)}</strong>
+            </div>
+          )}
+        </div>
+      )}
+
+      {upcoming && !offRoute && (
+        <div style={{ marginTop: 8, padding: 8, borderRadius: 8, background: "#fef3c7", fontWeight: 600 }}>
+          🔔 {t("trip.getDownNext", { stop: stopName(upcoming.stop.name) })}
+          {upcoming.change && t("trip.thenChange")}
+        </div>
+      )}
+
+      {offRoute && (
+        <div style={{ marginTop: 8, padding: 8, borderRadius: 8, background: "#fee2e2" }}>
+          {t("trip.offRoute", { distance: formatDistance(offRouteKm) })}{" "}
+          <button onClick={() => onReplan(position)} style={buttonStyle}>
+            {t("trip.replan")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import L from "leaflet";
+import { Marker, Tooltip } from "react-leaflet";
+import type { VehicleEta, VehiclePosition } from "../types";
+import { useI18n } from "../utils/useI18n";
+
+interface VehicleLayerProps {
+  vehicles: VehiclePosition[];
+  etas?: Map<string, VehicleEta & { stop: string }>; // by vehicle id, towards the rider's boarding stop
+}
+
+const vehicleIcon = L.divIcon({
+  className: "",
+  html: '<div style="font-size:22px;line-height:22px;filter:drop-shadow(0 1px 2px rgba(0,0,0,.4))">🚐</div>',
+  iconSize: [22, 22],
+  iconAnchor: [11, 11],
+});
+
+/** Trotros on the selected journey's routes, where they were last reported */
+export default function VehicleLayer({ vehicles, etas }: VehicleLayerProps) {
+  const { t, stopName } = useI18n();
+  return (
+    <>
+      {vehicles.map((v) => {
+        const eta = etas?.get(v.vehicleId);
+        return (
+          <Marker key={v.vehicleId} position={v.coords} icon={vehicleIcon}>
+            <Tooltip direction="top" offset={[0, -10]}>
+              {v.vehicleId}
+              {eta && ` • ${t("vehicle.eta", { stop: stopName(eta.stop), minutes: Math.round(eta.minutes) })}`}
+            </Tooltip>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+
+/** The signed-in user, or null */
+export async function currentUser(client: SupabaseClient = supabase): Promise<User | null> {
+  const { data } = await client.auth.getSession();
+  return data.session?.user ?? null;
+}
+
+/** Call `listener` with the user whenever someone signs in or out; returns an unsubscribe */
+export function onUserChange(listener: (user: User | null) => void, client: SupabaseClient = supabase): () => void {
+  const { data } = client.auth.onAuthStateChange((_event, session) => listener(session?.user ?? null));
+  return () => data.subscription.unsubscribe();
+}
+
+export async function signInWithPassword(
+  email: string,
+  password: string,
+  client: SupabaseClient = supabase
+): Promise<User> {
+  const { data, error } = await client.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+  return data.user;
+}
+
+/** Create an account; returns null until the email address is confirmed, when that is required */
+export async function signUpWithPassword(
+  email: string,
+  password: string,
+  client: SupabaseClient = supabase
+): Promise<User | null> {
+  const { data, error } = await client.auth.signUp({ email, password });
+  if (error) throw error;
+  return data.session?.user ?? null;
+}
+
+export async function signOut(client: SupabaseClient = supabase): Promise<void> {
+  const { error } = await client.auth.signOut();
+  if (error) throw error;
+}
+
+/**
+ * Whether a user may edit the network. The role lives in app_metadata,
+ * which only the service role can set, so users cannot grant it to
+ * themselves. Row-level security on the network tables must check the same
+ * claim; this only decides what the app shows.
+ */
+export function isAdmin(user: User | null): boolean {
+  const role: unknown = user?.app_metadata?.role;
+  return role === "admin" || role === "operator";
+}
+
+/** Whether a user may publish vehicle positions: drivers, station masters and the network's editors */
+export function canPublishVehicles(user: User | null): boolean {
+  const role: unknown = user?.app_metadata?.role;
+  return isAdmin(user) || role === "driver" || role === "station_master";
+}
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { FareReport } from "../types";
+import type { PassengerType } from "../utils/fareRules";
+import { REPORT_WINDOW_DAYS } from "../utils/fareReports";
+import { supabase } from "./supabaseClient";
+
+const PASSENGERS: unknown[] = ["adult", "student", "child", "senior"];
+
+/** Save a passenger's fare report to the fare_reports table */
+export async function submitFareReport(report: FareReport, client: SupabaseClient = supabase): Promise<void> {
+  if (!Number.isFinite(report.fare) || report.fare <= 0) throw new Error("Fare must be a positive amount");
+  const { error } = await client.from("fare_reports").insert({
+    route_id: report.routeId,
+    from_stop: report.fromId,
+    to_stop: report.toId,
+    fare: report.fare,
+    passenger: report.passenger ?? "adult",
+    luggage: report.luggage ?? false,
+    reported_at: new Date(report.reportedAt).toISOString(),
+  });
+  if (error) throw error;
+}
+
+/** Reports from the last week; malformed rows are skipped */
+export async function fetchRecentFareReports(
+  now = Date.now(),
+  client: SupabaseClient = supabase
+): Promise<FareReport[]> {
+  const since = new Date(now - REPORT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await client
+    .from("fare_reports")
+    .select("route_id, from_stop, to_stop, fare, passenger, luggage, reported_at")
+    .gte("reported_at", since);
+  if (error) throw error;
+
+  const reports: FareReport[] = [];
+  for (const row of data ?? []) {
+    const reportedAt = Date.parse(String(row.reported_at));
+    const fare = Number(row.fare);
+    if (!row.route_id || !row.from_stop || !row.to_stop || !Number.isFinite(fare) || fare <= 0) continue;
+    if (!Number.isFinite(reportedAt)) continue;
+    reports.push({
+      routeId: String(row.route_id),
+      fromId: String(row.from_stop),
+      toId: String(row.to_stop),
+      fare,
+      passenger: PASSENGERS.includes(row.passenger) ? (row.passenger as PassengerType) : "adult",
+      luggage: row.luggage === true,
+      reportedAt,
+    });
+  }
+  return reports;
+}
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Route, Stop } from "../types";
+import { haversineDistance } from "../utils/calcDistance";
+import { nearestStops } from "../utils/nearestStops";
+import { buildRoutingGraph, findBestPath } from "../utils/routingEngine";
+import { fixedLocation, replayedLocation } from "./geolocation";
+
+const stops: Stop[] = [
+  { id: "circle", name: "Circle", coords: [5.5697, -0.2172] },
+  { id: "kaneshie", name: "Kaneshie", coords: [5.5667, -0.2333] },
+  { id: "madina", name: "Madina", coords: [5.6685, -0.1657] },
+];
+const [circle, kaneshie] = stops;
+const route: Route = {
+  id: "circle-kaneshie",
+  from: circle.name,
+  to: kaneshie.name,
+  fromId: circle.id,
+  toId: kaneshie.id,
+  fare: 5,
+  distance: haversineDistance(circle.coords, kaneshie.coords),
+  fromCoords: circle.coords,
+  toCoords: kaneshie.coords,
+};
+// a couple of hundred metres from Circle
+const nearCircle: [number, number] = [5.5712, -0.2160];
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("fixedLocation", () => {
+  it("stands in for the device when planning from my location", async () => {
+    const coords = await fixedLocation(nearCircle).getCurrentPosition();
+
+    const [nearest] = nearestStops(stops, coords, 3, 0.5);
+    expect(nearest.item.id).toBe("circle");
+    expect(nearest.distance).toBeGreaterThan(0.1);
+    expect(nearestStops(stops, coords, 3, 0.5)).toHaveLength(1);
+
+    const graph = buildRoutingGraph(stops, [route]);
+    const result = findBestPath(graph, { label: "My location", coords }, "kaneshie", "fare");
+    expect(result?.legs.map((l) => l.mode)).toEqual(["walk", "ride"]);
+    expect(result?.legs[0].to).toBe("Circle");
+  });
+
+  it("reports the same spot to watchers", async () => {
+    vi.useFakeTimers();
+    const seen: [number, number][] = [];
+    const stop = fixedLocation(nearCircle).watchPosition((coords) => seen.push(coords));
+    await vi.advanceTimersByTimeAsync(10);
+    stop();
+    expect(seen).toEqual([nearCircle]);
+  });
+});
+
+describe("replayedLocation", () => {
+  const points = [
+    { t: 100, coords: circle.coords },
+    { t: 110, coords: nearCircle },
+    { t: 120, coords: kaneshie.coords },
+  ];
+
+  it("plays a track back at the speed asked for, holding the last fix", async () => {
+    vi.useFakeTimers();
+    const location = replayedLocation(() => Promise.resolve(points), { speedup: 10 });
+
+    expect(await location.getCurrentPosition()).toEqual(circle.coords);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await location.getCurrentPosition()).toEqual(nearCircle);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await location.getCurrentPosition()).toEqual(kaneshie.coords);
+  });
+
+  it("tells watchers about each new fix once", async () => {
+    vi.useFakeTimers();
+    const seen: [number, number][] = [];
+    const stop = replayedLocation(() => Promise.resolve(points), { speedup: 10, tickMs: 250 }).watchPosition((c) =>
+      seen.push(c)
+    );
+    await vi.advanceTimersByTimeAsync(5000);
+    stop();
+    expect(seen).toEqual(points.map((p) => p.coords));
+  });
+
+  it("fails when the track is empty", async () => {
+    const errors: Error[] = [];
+    const stop = replayedLocation(() => Promise.resolve([])).watchPosition(
+      () => {},
+      (err) => errors.push(err)
+    );
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    stop();
+    expect(errors[0].message).toBe("The recorded track has no positions");
+  });
+});
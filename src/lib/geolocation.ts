@@ -0,0 +1,113 @@
+import { parseRecordedTracks, type RecordedTrack } from "./vehicleFeed";
+
+type LatLng = [number, number];
+
+/** Where the rider is, as [lat, lng]. Swap the implementation to test without a device. */
+export interface LocationProvider {
+  getCurrentPosition(): Promise<LatLng>;
+  /** Call `onPosition` with every new fix until the returned function is called */
+  watchPosition(onPosition: (coords: LatLng) => void, onError?: (err: Error) => void): () => void;
+}
+
+/** The browser's Geolocation API */
+export const browserLocation: LocationProvider = {
+  getCurrentPosition: () =>
+    new Promise((resolve, reject) => {
+      if (!("geolocation" in navigator)) {
+        reject(new Error("Geolocation is not available in this browser"));
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (pos) => resolve([pos.coords.latitude, pos.coords.longitude]),
+        (err) => reject(new Error(err.message)),
+        { enableHighAccuracy: true, timeout: 10000 }
+      );
+    }),
+  watchPosition: (onPosition, onError) => {
+    if (!("geolocation" in navigator)) {
+      onError?.(new Error("Geolocation is not available in this browser"));
+      return () => {};
+    }
+    const id = navigator.geolocation.watchPosition(
+      (pos) => onPosition([pos.coords.latitude, pos.coords.longitude]),
+      (err) => onError?.(new Error(err.message)),
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+    return () => navigator.geolocation.clearWatch(id);
+  },
+};
+
+/** Always reports the same spot; for tests and for demoing away from Accra */
+export function fixedLocation(coords: LatLng): LocationProvider {
+  return {
+    getCurrentPosition: () => Promise.resolve(coords),
+    watchPosition: (onPosition) => {
+      const timer = setTimeout(() => onPosition(coords), 0);
+      return () => clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Plays back a recorded track (the driver page's download) as the rider's
+ * position, `speedup` times faster than it was recorded. The clock starts at
+ * the first request and the last fix holds once the track runs out.
+ */
+export function replayedLocation(
+  loadPoints: () => Promise<RecordedTrack["points"]>,
+  { speedup = 1, tickMs = 1000 }: { speedup?: number; tickMs?: number } = {}
+): LocationProvider {
+  let points: Promise<RecordedTrack["points"]> | null = null;
+  let startedAt = 0;
+
+  const positionNow = async (): Promise<LatLng> => {
+    points ??= loadPoints();
+    const fixes = await points;
+    if (fixes.length === 0) throw new Error("The recorded track has no positions");
+    startedAt ||= Date.now();
+    const t = fixes[0].t + ((Date.now() - startedAt) / 1000) * speedup;
+    return ([...fixes].reverse().find((p) => p.t <= t) ?? fixes[0]).coords;
+  };
+
+  return {
+    getCurrentPosition: positionNow,
+    watchPosition: (onPosition, onError) => {
+      let last: LatLng | null = null;
+      const tick = () =>
+        positionNow()
+          .then((coords) => {
+            if (coords === last) return;
+            last = coords;
+            onPosition(coords);
+          })
+          .catch((err) => onError?.(err instanceof Error ? err : new Error(String(err))));
+      tick();
+      const timer = setInterval(tick, tickMs);
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+/**
+ * The provider the app should use: a fixed spot when VITE_MOCK_LOCATION is
+ * set to "lat,lng", a replay of the track at VITE_MOCK_TRACK_URL when that
+ * is set, the browser otherwise.
+ */
+export function defaultLocationProvider(): LocationProvider {
+  const mock = (import.meta.env.VITE_MOCK_LOCATION as string | undefined)?.split(",").map(Number);
+  if (mock?.length === 2 && mock.every(Number.isFinite)) {
+    return fixedLocation([mock[0], mock[1]]);
+  }
+
+  const trackUrl = import.meta.env.VITE_MOCK_TRACK_URL as string | undefined;
+  if (trackUrl) {
+    const speedup = Number(import.meta.env.VITE_MOCK_TRACK_SPEEDUP) || 1;
+    return replayedLocation(async () => {
+      const resp = await fetch(trackUrl);
+      if (!resp.ok) throw new Error(`Track not found at ${trackUrl}`);
+      const [track] = parseRecordedTracks(await resp.json());
+      return track?.points ?? [];
+    }, { speedup });
+  }
+  return browserLocation;
+}
@@ -0,0 +1,21 @@
+const OSM_TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+/** Leaflet URL template of the map's tile server: VITE_TILE_URL, else OpenStreetMap */
+export const TILE_URL = (import.meta.env.VITE_TILE_URL as string | undefined) || OSM_TILE_URL;
+
+export const TILE_ATTRIBUTION =
+  (import.meta.env.VITE_TILE_ATTRIBUTION as string | undefined) || "&copy; OpenStreetMap contributors";
+
+/**
+ * Whether the service worker should download the Accra map ahead of time.
+ * Opt-in with VITE_PRECACHE_TILES=true, and never from OpenStreetMap's own
+ * servers, whose tile usage policy forbids bulk downloads: point
+ * VITE_TILE_URL at a server that allows it (your own, or a paid plan).
+ */
+export const PRECACHE_TILES =
+  import.meta.env.VITE_PRECACHE_TILES === "true" && !/\.openstreetmap\.org\//.test(TILE_URL);
+
+/** The service worker's URL; it learns which requests are map tiles from it */
+export function serviceWorkerUrl(base: string): string {
+  return `${base}sw.js?tiles=${encodeURIComponent(TILE_URL)}`;
+}
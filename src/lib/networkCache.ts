@@ -0,0 +1,125 @@
+import type { Stop, Route, StopAlias } from "../types";
+import { haversineDistance } from "../utils/calcDistance";
+import bundledStops from "../data/stops.json";
+import bundledRoutes from "../data/routes.json";
+import type { NetworkSource } from "./networkSource";
+import type { RejectedRow } from "./validateNetwork";
+
+/** Stops and routes as last seen, with the network version they came from */
+export interface NetworkSnapshot {
+  stops: Stop[];
+  routes: Route[];
+  aliases: StopAlias[];
+  version: string;   // row counts and newest updated_at on the server, "" for bundled data
+  savedAt: number;   // epoch ms the snapshot was taken
+  rejected: RejectedRow[];   // rows the source had that failed validation
+}
+
+/** Where the data in use came from */
+export type NetworkOrigin = "live" | "cache" | "bundled";
+
+export interface LoadedNetwork extends NetworkSnapshot {
+  origin: NetworkOrigin;
+}
+
+const DB_NAME = "trotro";
+const STORE = "network";
+const SNAPSHOT_KEY = "snapshot";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** The snapshot saved by the last successful download, if any */
+export async function readCachedNetwork(): Promise<NetworkSnapshot | null> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(STORE, "readonly").objectStore(STORE).get(SNAPSHOT_KEY);
+    // snapshots saved before aliases existed have none
+    req.onsuccess = () => {
+      const snapshot = req.result as NetworkSnapshot | undefined;
+      resolve(snapshot ? { ...snapshot, aliases: snapshot.aliases ?? [] } : null);
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function writeCachedNetwork(snapshot: NetworkSnapshot): Promise<void> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put(snapshot, SNAPSHOT_KEY);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * The network shipped with the app. It only has names, so names double as
+ * stop ids.
+ */
+export function bundledNetwork(): NetworkSnapshot {
+  const stops: Stop[] = bundledStops.map((s) => ({
+    id: s.name,
+    name: s.name,
+    coords: [s.coords[0], s.coords[1]],
+  }));
+  const byName = new Map(stops.map((s) => [s.name, s]));
+
+  const routes: Route[] = bundledRoutes.flatMap((r, idx) => {
+    const from = byName.get(r.from);
+    const to = byName.get(r.to);
+    if (!from || !to) return [];
+    return [
+      {
+        id: `bundled-${idx}`,
+        from: from.name,
+        to: to.name,
+        fromId: from.id,
+        toId: to.id,
+        fare: r.fare,
+        distance: haversineDistance(from.coords, to.coords),
+        fromCoords: from.coords,
+        toCoords: to.coords,
+      },
+    ];
+  });
+
+  return { stops, routes, aliases: [], version: "", savedAt: 0, rejected: [] };
+}
+
+/**
+ * Stops and routes to plan with, preferring in order:
+ * - the cached snapshot, when the server's version still matches it
+ * - a fresh download, which then replaces the cache
+ * - the cached snapshot of any age, when the server cannot be reached
+ * - the bundled network
+ */
+export async function loadNetwork(source: NetworkSource): Promise<LoadedNetwork> {
+  const cached = await readCachedNetwork().catch(() => null);
+
+  try {
+    const version = await source.version();
+    if (cached && cached.version === version) {
+      return { ...cached, origin: "live" };
+    }
+
+    const data = await source.load();
+    const snapshot: NetworkSnapshot = { ...data, version, savedAt: Date.now() };
+    await writeCachedNetwork(snapshot).catch((err) => console.warn("Could not cache network:", err));
+    return { ...snapshot, origin: "live" };
+  } catch (err) {
+    console.error("Error fetching data:", err);
+    if (cached) return { ...cached, origin: "cache" };
+    return { ...bundledNetwork(), origin: "bundled" };
+  }
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Stop } from "../types";
+import { bundledNetwork, loadNetwork } from "./networkCache";
+import { jsonNetworkSource, memoryNetworkSource, type NetworkSource } from "./networkSource";
+
+const stopRows = [
+  { id: "circle", name: "Circle", lat: 5.5697, lng: -0.2172 },
+  { id: "lapaz", name: "Lapaz", lat: 5.6066, lng: -0.2506 },
+  { id: "kaneshie", name: "Kaneshie", lat: 5.5667, lng: -0.2333 },
+];
+const goodRoute = {
+  id: "r1",
+  fare: 6,
+  from_stop: { id: "circle" },
+  to_stop: { id: "kaneshie" },
+  route_stops: [{ stop_order: 1, stops: { id: "lapaz" } }],
+};
+
+describe("jsonNetworkSource", () => {
+  it("maps rows in the Supabase shape onto stops and routes", async () => {
+    const { stops, routes, rejected } = await jsonNetworkSource({ stops: stopRows, routes: [goodRoute] }).load();
+    expect(stops.map((s) => s.id)).toEqual(["circle", "lapaz", "kaneshie"]);
+    expect(stops[0].coords).toEqual([5.5697, -0.2172]);
+    expect(routes).toHaveLength(1);
+    expect(routes[0]).toMatchObject({ from: "Circle", to: "Kaneshie", fare: 6 });
+    expect(routes[0].intermediates?.map((s) => s.id)).toEqual(["lapaz"]);
+    expect(rejected).toEqual([]);
+  });
+
+  it("rejects bad rows with a reason instead of failing the load", async () => {
+    const { stops, routes, rejected } = await jsonNetworkSource({
+      stops: [...stopRows, { id: "nowhere", name: "Nowhere", lat: Number.NaN, lng: 0 }, { ...stopRows[0] }],
+      routes: [
+        goodRoute,
+        { ...goodRoute, id: "no-start", from_stop: null },
+        { ...goodRoute, id: "negative", fare: -2 },
+        { ...goodRoute, id: "deleted-stop", route_stops: [{ stop_order: 1, stops: { id: "gone" } }] },
+      ],
+    }).load();
+
+    expect(stops).toHaveLength(3);
+    expect(routes.map((r) => r.id)).toEqual(["r1"]);
+    expect(rejected.map((r) => [r.table, r.id])).toEqual([
+      ["stops", "nowhere"],
+      ["stops", "circle"],
+      ["routes", "no-start"],
+      ["routes", "negative"],
+      ["routes", "deleted-stop"],
+    ]);
+    expect(rejected.every((r) => r.reason.length > 0)).toBe(true);
+  });
+
+  it("treats a malformed document as an empty network", async () => {
+    expect(await jsonNetworkSource("not json").load()).toEqual({ stops: [], routes: [], aliases: [], rejected: [] });
+  });
+});
+
+describe("loadNetwork", () => {
+  const stops: Stop[] = [{ id: "circle", name: "Circle", coords: [5.5697, -0.2172] }];
+
+  // there is no IndexedDB to cache in here, and failing sources are logged
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("uses the source's data when it can be reached", async () => {
+    const loaded = await loadNetwork(memoryNetworkSource(stops, [], [], "v1"));
+    expect(loaded.origin).toBe("live");
+    expect(loaded.version).toBe("v1");
+    expect(loaded.stops).toEqual(stops);
+  });
+
+  it("falls back to the bundled network when the source fails and nothing is cached", async () => {
+    const offline: NetworkSource = {
+      version: () => Promise.reject(new Error("offline")),
+      load: () => Promise.reject(new Error("offline")),
+    };
+    const loaded = await loadNetwork(offline);
+    expect(loaded.origin).toBe("bundled");
+    expect(loaded.stops).toEqual(bundledNetwork().stops);
+  });
+});
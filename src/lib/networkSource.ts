@@ -0,0 +1,38 @@
+import type { Stop, Route, StopAlias } from "../types";
+import { validateNetwork, type NetworkData } from "./validateNetwork";
+
+/**
+ * Somewhere stops and routes can be loaded from. The app talks to Supabase
+ * through this; tests and offline demos can hand it data directly instead.
+ */
+export interface NetworkSource {
+  /** Changes whenever the data does; lets a cached copy be reused */
+  version(): Promise<string>;
+  load(): Promise<NetworkData>;
+}
+
+/** Stops and routes already in the app's own types, used as they are */
+export function memoryNetworkSource(
+  stops: Stop[],
+  routes: Route[],
+  aliases: StopAlias[] = [],
+  version = "memory"
+): NetworkSource {
+  return {
+    version: () => Promise.resolve(version),
+    load: () => Promise.resolve({ stops, routes, aliases, rejected: [] }),
+  };
+}
+
+/**
+ * A JSON document of raw rows, `{ "stops": [...], "routes": [...],
+ * "aliases": [...] }`, in the same shape as the Supabase tables. Rows are validated like live ones.
+ */
+export function jsonNetworkSource(json: unknown, version = "json"): NetworkSource {
+  const doc = typeof json === "object" && json !== null ? (json as { stops?: unknown; routes?: unknown; aliases?: unknown }) : {};
+  const rows = (value: unknown) => (Array.isArray(value) ? value : []);
+  return {
+    version: () => Promise.resolve(version),
+    load: () => Promise.resolve(validateNetwork(rows(doc.stops), rows(doc.routes), rows(doc.aliases))),
+  };
+}
@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RiderData } from "../types";
+import { EMPTY_RIDER_DATA, parseRiderData } from "../utils/riderData";
+import { supabase } from "./supabaseClient";
+
+const STORAGE_KEY = "trotro.riderData";
+
+/** Places and trips saved on this device while signed out */
+export function readDeviceRiderData(storage: Storage = localStorage): RiderData {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    return raw ? parseRiderData(JSON.parse(raw)) : EMPTY_RIDER_DATA;
+  } catch (err) {
+    console.warn("Ignoring unreadable saved places:", err);
+    return EMPTY_RIDER_DATA;
+  }
+}
+
+export function writeDeviceRiderData(data: RiderData, storage: Storage = localStorage): void {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (err) {
+    // private browsing or a full quota; the data still lives for this visit
+    console.warn("Could not save places on this device:", err);
+  }
+}
+
+export function clearDeviceRiderData(storage: Storage = localStorage): void {
+  storage.removeItem(STORAGE_KEY);
+}
+
+/** The account's saved places and trips, kept as one JSON document per user in rider_data */
+export async function fetchAccountRiderData(userId: string, client: SupabaseClient = supabase): Promise<RiderData> {
+  const { data, error } = await client.from("rider_data").select("data").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  return parseRiderData(data?.data);
+}
+
+export async function saveAccountRiderData(
+  userId: string,
+  riderData: RiderData,
+  client: SupabaseClient = supabase
+): Promise<void> {
+  const { error } = await client
+    .from("rider_data")
+    .upsert({ user_id: userId, data: riderData, updated_at: new Date().toISOString() });
+  if (error) throw error;
+}
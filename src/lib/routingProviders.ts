@@ -0,0 +1,138 @@
+import axios from "axios";
+
+type LatLng = [number, number];
+
+/**
+ * Something that can draw a road line through a list of stops. `route`
+ * rejects when it cannot, including when `signal` aborts it.
+ */
+export interface RoutingProvider {
+  id: string;
+  label: string;       // shown on the map next to the lines it drew
+  route(coords: LatLng[], signal?: AbortSignal): Promise<LatLng[]>;
+}
+
+const toLngLat = (coords: LatLng[]) => coords.map(([lat, lng]) => [lng, lat]);
+const fromLngLat = (line: [number, number][]) => line.map(([lng, lat]) => [lat, lng] as LatLng);
+
+function lineOrThrow(geom: unknown, who: string): LatLng[] {
+  if (!Array.isArray(geom) || geom.length < 2) throw new Error(`${who} returned no geometry`);
+  return fromLngLat(geom as [number, number][]);
+}
+
+/** OpenRouteService driving directions */
+export function orsProvider(apiKey: string): RoutingProvider {
+  return {
+    id: "ors",
+    label: "OpenRouteService",
+    route: async (coords, signal) => {
+      const resp = await axios.post(
+        "https://api.openrouteservice.org/v2/directions/driving-car/geojson",
+        { coordinates: toLngLat(coords) },
+        { headers: { Authorization: apiKey, "Content-Type": "application/json" }, signal }
+      );
+      return lineOrThrow(resp.data?.features?.[0]?.geometry?.coordinates, "ORS");
+    },
+  };
+}
+
+/** Any server speaking the OSRM route API, e.g. a self-hosted osrm-backend */
+export function osrmProvider(baseUrl: string, profile = "driving"): RoutingProvider {
+  return {
+    id: "osrm",
+    label: `OSRM (${new URL(baseUrl).host})`,
+    route: async (coords, signal) => {
+      const points = toLngLat(coords).map((p) => p.join(",")).join(";");
+      const resp = await axios.get(`${baseUrl.replace(/\/$/, "")}/route/v1/${profile}/${points}`, {
+        params: { overview: "full", geometries: "geojson" },
+        signal,
+      });
+      return lineOrThrow(resp.data?.routes?.[0]?.geometry?.coordinates, "OSRM");
+    },
+  };
+}
+
+/** A Valhalla server, asked for an OSRM-shaped answer */
+export function valhallaProvider(baseUrl: string, costing = "bus"): RoutingProvider {
+  return {
+    id: "valhalla",
+    label: `Valhalla (${new URL(baseUrl).host})`,
+    route: async (coords, signal) => {
+      const resp = await axios.post(
+        `${baseUrl.replace(/\/$/, "")}/route`,
+        {
+          locations: coords.map(([lat, lon]) => ({ lat, lon, type: "through" })),
+          costing,
+          format: "osrm",
+          shape_format: "geojson",
+        },
+        { signal }
+      );
+      return lineOrThrow(resp.data?.routes?.[0]?.geometry?.coordinates, "Valhalla");
+    },
+  };
+}
+
+/** Straight lines between stops; never fails, needs no network */
+export const straightLineProvider: RoutingProvider = {
+  id: "straight",
+  label: "Straight lines",
+  route: (coords) => Promise.resolve(coords),
+};
+
+/**
+ * Remember every line a provider draws, keyed by the stops it went through,
+ * so re-selecting a journey does not fetch again. Failures are not cached.
+ */
+export function cachedProvider(provider: RoutingProvider, maxEntries = 200): RoutingProvider {
+  const cache = new Map<string, LatLng[]>();
+  return {
+    ...provider,
+    route: async (coords, signal) => {
+      const key = coords.map(([lat, lng]) => `${lat.toFixed(6)},${lng.toFixed(6)}`).join(";");
+      const hit = cache.get(key);
+      if (hit) {
+        // refresh its place as most recently used
+        cache.delete(key);
+        cache.set(key, hit);
+        return hit;
+      }
+      const line = await provider.route(coords, signal);
+      cache.set(key, line);
+      if (cache.size > maxEntries) cache.delete(cache.keys().next().value!);
+      return line;
+    },
+  };
+}
+
+/**
+ * The provider the app should use, picked by VITE_ROUTING_PROVIDER
+ * ("ors", "osrm", "valhalla" or "straight"). Without it, ORS is used when
+ * VITE_ORS_API_KEY is set and straight lines otherwise.
+ */
+export function defaultRoutingProvider(): RoutingProvider {
+  const env = import.meta.env;
+  const choice = (env.VITE_ROUTING_PROVIDER as string | undefined) ?? (env.VITE_ORS_API_KEY ? "ors" : "straight");
+  const need = (name: string) => {
+    const value = env[name] as string | undefined;
+    if (!value) console.warn(`${name} not set — drawing straight lines`);
+    return value;
+  };
+
+  switch (choice) {
+    case "ors": {
+      const key = need("VITE_ORS_API_KEY");
+      return key ? orsProvider(key) : straightLineProvider;
+    }
+    case "osrm": {
+      const url = need("VITE_OSRM_URL");
+      return url ? osrmProvider(url) : straightLineProvider;
+    }
+    case "valhalla": {
+      const url = need("VITE_VALHALLA_URL");
+      return url ? valhallaProvider(url) : straightLineProvider;
+    }
+    default:
+      return straightLineProvider;
+  }
+}
@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+import type { NetworkSource } from "./networkSource";
+import { validateNetwork } from "./validateNetwork";
+
+const NETWORK_TABLES = ["stops", "routes", "route_stops", "stop_aliases"];
+
+/** Stops and routes from the Supabase tables, validated row by row */
+export function supabaseNetworkSource(client: SupabaseClient = supabase): NetworkSource {
+  // row count and newest edit of a network table; a cache is reused while
+  // both match, the count catching deletes that leave no newer updated_at
+  const tableVersion = async (table: string): Promise<string> => {
+    const { data, count, error } = await client
+      .from(table)
+      .select("updated_at", { count: "exact" })
+      .order("updated_at", { ascending: false })
+      .limit(1);
+    if (error) throw error;
+    const updatedAt: unknown = data?.[0]?.updated_at;
+    return `${count ?? 0}@${typeof updatedAt === "string" ? updatedAt : ""}`;
+  };
+
+  return {
+    version: async () => (await Promise.all(NETWORK_TABLES.map(tableVersion))).join("|"),
+
+    load: async () => {
+      const { data: stopRows, error: stopsError } = await client
+        .from("stops")
+        .select("id, name, lat, lng")
+        .order("name", { ascending: true });
+      if (stopsError) throw stopsError;
+
+      // routes with their stops joined; ids are checked against the stops above
+      const { data: routeRows, error: routesError } = await client.from("routes").select(`
+        id,
+        fare,
+        reverse_fare,
+        one_way,
+        direction,
+        pattern_id,
+        via,
+        speed_kmh,
+        loading_wait_min,
+        headways,
+        segment_fares,
+        from_stop (id),
+        to_stop (id),
+        route_stops (
+          stop_order,
+          stops (id)
+        )
+      `);
+      if (routesError) throw routesError;
+
+      // other names riders use for stops
+      const { data: aliasRows, error: aliasesError } = await client.from("stop_aliases").select("stop_id, alias, kind, language");
+      if (aliasesError) throw aliasesError;
+
+      return validateNetwork(stopRows ?? [], routeRows ?? [], aliasRows ?? []);
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Stop, Route } from "../types";
+import type { NetworkDiff } from "../utils/networkDiff";
+import { supabase } from "./supabaseClient";
+
+function stopRow(stop: Stop) {
+  return { id: stop.id, name: stop.name, lat: stop.coords[0], lng: stop.coords[1] };
+}
+
+function routeRow(route: Route) {
+  return {
+    id: route.id,
+    fare: route.fare,
+    reverse_fare: route.reverseFare ?? null,
+    one_way: route.oneWay ?? false,
+    via: route.via ?? null,
+    speed_kmh: route.speedKmh ?? null,
+    segment_fares: route.segmentFares ?? null,
+    from_stop: route.fromId ?? null,
+    to_stop: route.toId ?? null,
+  };
+}
+
+/**
+ * Write the added and changed stops and routes of a diff to Supabase.
+ * Records missing from the new data are left in place; deleting them is a
+ * separate decision from importing a feed.
+ */
+export async function saveNetworkChanges(diff: NetworkDiff, client: SupabaseClient = supabase): Promise<void> {
+  const stops = [...diff.stops.added, ...diff.stops.changed.map((c) => c.after)];
+  const routes = [...diff.routes.added, ...diff.routes.changed.map((c) => c.after)];
+
+  if (stops.length > 0) {
+    const { error } = await client.from("stops").upsert(stops.map(stopRow));
+    if (error) throw error;
+  }
+  if (routes.length === 0) return;
+
+  const { error: routesError } = await client.from("routes").upsert(routes.map(routeRow));
+  if (routesError) throw routesError;
+
+  // intermediate stops are replaced wholesale for every route written, in
+  // one transaction so a failure cannot leave a route without its stops
+  const routeStops = routes.flatMap((r) =>
+    (r.intermediates ?? []).map((s, idx) => ({ route_id: r.id, stop_id: s.id ?? null, stop_order: idx + 1 }))
+  );
+  const { error } = await client.rpc("replace_route_stops", {
+    route_ids: routes.map((r) => r.id),
+    stop_rows: routeStops,
+  });
+  if (error) throw error;
+}
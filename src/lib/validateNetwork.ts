@@ -0,0 +1,242 @@
+import type { Stop, Route, Headway, StopAlias, Language } from "../types";
+import { haversineDistance } from "../utils/calcDistance";
+import { LANGUAGE_CODES } from "../utils/i18n";
+
+/** A row that was left out of the network, and why */
+export interface RejectedRow {
+  table: "stops" | "routes" | "stop_aliases";
+  id: string | null;
+  reason: string;
+}
+
+/** Valid stops and routes, plus the rows that did not make it */
+export interface NetworkData {
+  stops: Stop[];
+  routes: Route[];
+  aliases: StopAlias[];
+  rejected: RejectedRow[];
+}
+
+/*
+ * Row shapes as stored in Supabase (and in JSON exports of it). Validation
+ * takes `unknown` and checks every field, so these only document the shape.
+ */
+export interface StopRow {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface RouteRow {
+  id: string;
+  fare: number;
+  reverse_fare?: number | null;
+  one_way?: boolean | null;
+  direction?: "outbound" | "inbound" | null;
+  pattern_id?: string | null;
+  via?: string | null;
+  speed_kmh?: number | null;
+  loading_wait_min?: number | null;
+  headways?: { from_hour: number; to_hour: number; minutes: number }[] | null;
+  from_stop: Pick<StopRow, "id"> | null;
+  to_stop: Pick<StopRow, "id"> | null;
+  route_stops?: { stop_order: number; stops: Pick<StopRow, "id"> | null }[] | null;
+  segment_fares?: number[] | null;
+}
+
+export interface StopAliasRow {
+  stop_id: string;
+  alias: string;
+  kind?: "alias" | "landmark" | "local" | null;
+  language?: string | null;
+}
+
+class RowError extends Error {}
+
+type Fields = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function rowId(row: unknown): string | null {
+  if (!isRecord(row)) return null;
+  return typeof row.id === "string" || typeof row.id === "number" ? String(row.id) : null;
+}
+
+function requireId(row: Fields, field: string): string {
+  const value = row[field];
+  if ((typeof value === "string" && value.length > 0) || typeof value === "number") return String(value);
+  throw new RowError(`${field} is missing`);
+}
+
+function requireString(row: Fields, field: string): string {
+  const value = row[field];
+  if (typeof value !== "string" || value.trim().length === 0) throw new RowError(`${field} is missing`);
+  return value.trim();
+}
+
+function requireNumber(row: Fields, field: string, min = -Infinity, max = Infinity): number {
+  const value = row[field];
+  if (typeof value !== "number" || !Number.isFinite(value)) throw new RowError(`${field} is not a number`);
+  if (value < min || value > max) throw new RowError(`${field} ${value} is out of range`);
+  return value;
+}
+
+function optionalNumber(row: Fields, field: string, min = -Infinity): number | undefined {
+  return row[field] === null || row[field] === undefined ? undefined : requireNumber(row, field, min);
+}
+
+function optionalString(row: Fields, field: string): string | undefined {
+  return row[field] === null || row[field] === undefined ? undefined : requireString(row, field);
+}
+
+function toStop(row: unknown): Stop {
+  if (!isRecord(row)) throw new RowError("not an object");
+  return {
+    id: requireId(row, "id"),
+    name: requireString(row, "name"),
+    coords: [requireNumber(row, "lat", -90, 90), requireNumber(row, "lng", -180, 180)],
+  };
+}
+
+function toAlias(row: unknown, stopsById: Map<string, Stop>): StopAlias {
+  if (!isRecord(row)) throw new RowError("not an object");
+  const stopId = requireId(row, "stop_id");
+  if (!stopsById.has(stopId)) throw new RowError(`stop_id points to unknown stop ${stopId}`);
+  const kind = row.kind ?? "alias";
+  if (kind !== "alias" && kind !== "landmark" && kind !== "local") {
+    throw new RowError(`kind "${String(kind)}" is not alias, landmark or local`);
+  }
+  const language = row.language ?? undefined;
+  if (language !== undefined && !LANGUAGE_CODES.includes(language as Language)) {
+    throw new RowError(`language "${String(language)}" is not one of ${LANGUAGE_CODES.join(", ")}`);
+  }
+  return { stopId, alias: requireString(row, "alias"), kind, language: language as Language | undefined };
+}
+
+function toHeadways(value: unknown): Headway[] | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new RowError("headways is not a list");
+  return value.map((h) => {
+    if (!isRecord(h)) throw new RowError("headway is not an object");
+    return {
+      fromHour: requireNumber(h, "from_hour", 0, 24),
+      toHour: requireNumber(h, "to_hour", 0, 24),
+      minutes: requireNumber(h, "minutes", 1),
+    };
+  });
+}
+
+function toSegmentFares(value: unknown, stopCount: number): number[] | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new RowError("segment_fares is not a list");
+  if (value.length !== stopCount - 1) {
+    throw new RowError(`segment_fares has ${value.length} fares for ${stopCount - 1} segments`);
+  }
+  return value.map((f) => {
+    if (typeof f !== "number" || !Number.isFinite(f) || f < 0) throw new RowError("segment fare is not a fare");
+    return f;
+  });
+}
+
+function toRoute(row: unknown, stopsById: Map<string, Stop>): Route {
+  if (!isRecord(row)) throw new RowError("not an object");
+
+  const stopAt = (ref: unknown, what: string): Stop => {
+    if (!isRecord(ref)) throw new RowError(`${what} is missing`);
+    const id = requireId(ref, "id");
+    const stop = stopsById.get(id);
+    if (!stop) throw new RowError(`${what} points to unknown stop ${id}`);
+    return stop;
+  };
+
+  const from = stopAt(row.from_stop, "from_stop");
+  const to = stopAt(row.to_stop, "to_stop");
+
+  const routeStops = row.route_stops ?? [];
+  if (!Array.isArray(routeStops)) throw new RowError("route_stops is not a list");
+  const intermediates = routeStops
+    .map((rs) => {
+      if (!isRecord(rs)) throw new RowError("route_stops entry is not an object");
+      return { order: requireNumber(rs, "stop_order"), stop: stopAt(rs.stops, "route_stops entry") };
+    })
+    .sort((a, b) => a.order - b.order)
+    .map(({ stop }) => ({ id: stop.id, name: stop.name, coords: stop.coords }));
+
+  const direction = row.direction ?? undefined;
+  if (direction !== undefined && direction !== "outbound" && direction !== "inbound") {
+    throw new RowError(`direction "${String(direction)}" is not outbound or inbound`);
+  }
+  const oneWay = row.one_way ?? false;
+  if (typeof oneWay !== "boolean") throw new RowError("one_way is not true or false");
+
+  return {
+    id: requireId(row, "id"),
+    from: from.name,
+    to: to.name,
+    fromId: from.id,
+    toId: to.id,
+    fare: requireNumber(row, "fare", 0),
+    distance: haversineDistance(from.coords, to.coords),
+    fromCoords: from.coords,
+    toCoords: to.coords,
+    intermediates,
+    patternId: optionalString(row, "pattern_id"),
+    direction,
+    via: optionalString(row, "via"),
+    oneWay,
+    reverseFare: optionalNumber(row, "reverse_fare", 0),
+    speedKmh: optionalNumber(row, "speed_kmh", 1),
+    loadingWaitMin: optionalNumber(row, "loading_wait_min", 0),
+    headways: toHeadways(row.headways),
+    segmentFares: toSegmentFares(row.segment_fares, intermediates.length + 2),
+  };
+}
+
+/**
+ * Check raw stop and route rows and turn the good ones into the app's types.
+ * Bad rows are skipped and reported rather than failing the whole load:
+ * missing or non-numeric fields, coordinates off the globe, negative fares,
+ * duplicate stop ids, and routes or aliases that refer to stops that do
+ * not exist.
+ */
+export function validateNetwork(stopRows: unknown[], routeRows: unknown[], aliasRows: unknown[] = []): NetworkData {
+  const rejected: RejectedRow[] = [];
+  const reject = (table: RejectedRow["table"], row: unknown, err: unknown) => {
+    if (!(err instanceof RowError)) throw err;
+    rejected.push({ table, id: rowId(row), reason: err.message });
+  };
+
+  const stopsById = new Map<string, Stop>();
+  for (const row of stopRows) {
+    try {
+      const stop = toStop(row);
+      if (stopsById.has(stop.id)) throw new RowError(`duplicate stop id ${stop.id}`);
+      stopsById.set(stop.id, stop);
+    } catch (err) {
+      reject("stops", row, err);
+    }
+  }
+
+  const routes: Route[] = [];
+  for (const row of routeRows) {
+    try {
+      routes.push(toRoute(row, stopsById));
+    } catch (err) {
+      reject("routes", row, err);
+    }
+  }
+
+  const aliases: StopAlias[] = [];
+  for (const row of aliasRows) {
+    try {
+      aliases.push(toAlias(row, stopsById));
+    } catch (err) {
+      reject("stop_aliases", row, err);
+    }
+  }
+
+  return { stops: [...stopsById.values()], routes, aliases, rejected };
+}
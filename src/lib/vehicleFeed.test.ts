@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Route, VehiclePosition } from "../types";
+import { haversineDistance } from "../utils/calcDistance";
+import { nextArrival, vehicleEta } from "../utils/vehicleEta";
+import { parseRecordedTracks, simulatedVehicleFeed, type RecordedTrack } from "./vehicleFeed";
+
+// three stops a kilometre apart, driven at 30 km/h: two minutes a stop
+const coords: [number, number][] = [0, 1, 2].map((i) => [5.6, -0.2 + 0.009 * i]);
+const route: Route = {
+  id: "r1",
+  from: "First",
+  to: "Last",
+  fare: 5,
+  distance: haversineDistance(coords[0], coords[2]),
+  fromCoords: coords[0],
+  toCoords: coords[2],
+  intermediates: [{ name: "Middle", coords: coords[1] }],
+  speedKmh: 30,
+};
+
+const track: RecordedTrack = {
+  vehicleId: "GT-1234-20",
+  routeId: "r1",
+  forward: true,
+  points: [
+    { t: 0, coords: coords[0] },
+    { t: 60, coords: coords[1] },
+    { t: 120, coords: coords[2] },
+  ],
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("parseRecordedTracks", () => {
+  it("keeps good tracks with their fixes in time order, skipping malformed ones", () => {
+    const tracks = parseRecordedTracks([
+      { ...track, points: [...track.points].reverse() },
+      { vehicleId: "no-route", points: track.points },
+      { ...track, vehicleId: "no-fixes", points: [{ t: "later", coords: coords[0] }] },
+    ]);
+    expect(tracks).toEqual([track]);
+  });
+});
+
+describe("simulatedVehicleFeed", () => {
+  it("replays recorded tracks to subscribers of their route", async () => {
+    vi.useFakeTimers();
+    const feed = simulatedVehicleFeed(() => Promise.resolve([track]), { speedup: 30, tickMs: 1000 });
+    const seen: VehiclePosition[] = [];
+    const other: VehiclePosition[] = [];
+    const stop = feed.subscribe("r1", (p) => seen.push(p));
+    const stopOther = feed.subscribe("r2", (p) => other.push(p));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    stop();
+    stopOther();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(seen.map((p) => p.coords)).toEqual([coords[0], coords[1]]);
+    expect(seen.every((p) => p.vehicleId === "GT-1234-20" && p.forward)).toBe(true);
+    expect(other).toEqual([]);
+  });
+
+  it("sends published positions straight back to subscribers", async () => {
+    const feed = simulatedVehicleFeed(() => Promise.resolve([]));
+    const seen: VehiclePosition[] = [];
+    const stop = feed.subscribe("r1", (p) => seen.push(p));
+    const position = { vehicleId: "GT-1", routeId: "r1", forward: true, coords: coords[0], reportedAt: 0 };
+    await feed.publish(position);
+    stop();
+    expect(seen).toEqual([position]);
+  });
+});
+
+describe("arrival estimates", () => {
+  const at = (c: [number, number], extra: Partial<VehiclePosition> = {}): VehiclePosition => ({
+    vehicleId: "GT-1",
+    routeId: "r1",
+    forward: true,
+    coords: c,
+    reportedAt: 1000,
+    ...extra,
+  });
+
+  it("measure along the route at its typical speed", () => {
+    const eta = vehicleEta(route, at(coords[0]), 2, true)!;
+    expect(eta.distance).toBeCloseTo(route.distance, 5);
+    expect(eta.minutes).toBeCloseTo(4, 1);
+  });
+
+  it("leave out vehicles heading the other way or already past the stop", () => {
+    expect(vehicleEta(route, at(coords[0], { forward: false }), 2, true)).toBeNull();
+    expect(vehicleEta(route, at(coords[2]), 1, true)).toBeNull();
+  });
+
+  it("pick the soonest vehicle that is still reporting", () => {
+    const near = at(coords[1], { vehicleId: "near", reportedAt: 0 });
+    const far = at(coords[0], { vehicleId: "far", reportedAt: 10 * 60 * 1000 });
+    expect(nextArrival(route, [near, far], 2, true, 10 * 60 * 1000)?.vehicleId).toBe("far");
+    expect(nextArrival(route, [near, far], 2, true, 60 * 1000)?.vehicleId).toBe("near");
+  });
+});
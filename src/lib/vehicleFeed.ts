@@ -0,0 +1,179 @@
+import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
+import type { VehiclePosition } from "../types";
+import { supabase } from "./supabaseClient";
+
+/**
+ * Live vehicle positions by route. Swap the implementation to develop
+ * without vehicles on the road.
+ */
+export interface VehicleFeed {
+  /** Call `onPosition` for every position published on the route; returns an unsubscribe */
+  subscribe(routeId: string, onPosition: (position: VehiclePosition) => void): () => void;
+  publish(position: VehiclePosition): Promise<void>;
+}
+
+/** A GPS track as recorded by the driver page: fixes at seconds since the start */
+export interface RecordedTrack {
+  vehicleId: string;
+  routeId: string;
+  forward: boolean;
+  points: { t: number; coords: [number, number] }[];
+}
+
+const channelName = (routeId: string) => `vehicles:${routeId}`;
+// private channels go through Realtime authorization: anyone may listen, only crews may send
+const CHANNEL_OPTIONS = { config: { private: true } };
+
+/** A position received from the network, or null when it is malformed */
+function toPosition(payload: unknown): VehiclePosition | null {
+  if (typeof payload !== "object" || payload === null) return null;
+  const { vehicleId, routeId, forward, coords, reportedAt } = payload as Record<string, unknown>;
+  if (typeof vehicleId !== "string" || !vehicleId || typeof routeId !== "string" || !routeId) return null;
+  if (!Array.isArray(coords) || coords.length !== 2 || !coords.every(Number.isFinite)) return null;
+  if (typeof reportedAt !== "number") return null;
+  return { vehicleId, routeId, forward: forward !== false, coords: [coords[0], coords[1]], reportedAt };
+}
+
+/**
+ * Positions sent as Realtime broadcasts on one private channel per route,
+ * so the database's policies decide who may publish. Nothing is stored:
+ * riders see vehicles from the next position published after they open the
+ * route.
+ */
+export function supabaseVehicleFeed(client: SupabaseClient = supabase): VehicleFeed {
+  const publishing = new Map<string, Promise<RealtimeChannel>>();
+
+  // publishers keep one joined channel per route rather than joining for every fix
+  const joined = (routeId: string) => {
+    let channel = publishing.get(routeId);
+    if (!channel) {
+      channel = new Promise((resolve, reject) => {
+        const ch = client.channel(channelName(routeId), CHANNEL_OPTIONS);
+        ch.subscribe((status, err) => {
+          if (status === "SUBSCRIBED") resolve(ch);
+          else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+            publishing.delete(routeId);
+            client.removeChannel(ch);
+            reject(err ?? new Error(`Could not join ${channelName(routeId)}: ${status}`));
+          }
+        });
+      });
+      publishing.set(routeId, channel);
+    }
+    return channel;
+  };
+
+  return {
+    subscribe: (routeId, onPosition) => {
+      const channel = client
+        .channel(channelName(routeId), CHANNEL_OPTIONS)
+        .on("broadcast", { event: "position" }, ({ payload }) => {
+          const position = toPosition(payload);
+          if (position && position.routeId === routeId) onPosition(position);
+        })
+        .subscribe();
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+    publish: async (position) => {
+      const channel = await joined(position.routeId);
+      const status = await channel.send({ type: "broadcast", event: "position", payload: position });
+      if (status !== "ok") throw new Error(`Position not sent: ${status}`);
+    },
+  };
+}
+
+/** Tracks from JSON, skipping any that are malformed */
+export function parseRecordedTracks(json: unknown): RecordedTrack[] {
+  const list = Array.isArray(json) ? json : [json];
+  const tracks: RecordedTrack[] = [];
+  for (const item of list) {
+    const { vehicleId, routeId, forward, points } = (item ?? {}) as Record<string, unknown>;
+    if (typeof vehicleId !== "string" || typeof routeId !== "string" || !Array.isArray(points)) continue;
+    const fixes = points
+      .filter((p) => Number.isFinite(p?.t) && Array.isArray(p?.coords) && p.coords.every(Number.isFinite))
+      .map((p) => ({ t: Number(p.t), coords: [p.coords[0], p.coords[1]] as [number, number] }))
+      .sort((a, b) => a.t - b.t);
+    if (fixes.length > 0) tracks.push({ vehicleId, routeId, forward: forward !== false, points: fixes });
+  }
+  return tracks;
+}
+
+/**
+ * Replays recorded tracks as if the vehicles were driving them now, looping
+ * at the end, `speedup` times faster than real time. Positions published to
+ * it go straight back to its own subscribers.
+ */
+export function simulatedVehicleFeed(
+  loadTracks: () => Promise<RecordedTrack[]>,
+  { speedup = 1, tickMs = 1000 }: { speedup?: number; tickMs?: number } = {}
+): VehicleFeed {
+  const listeners = new Set<(position: VehiclePosition) => void>();
+  let tracks: Promise<RecordedTrack[]> | null = null;
+
+  return {
+    subscribe: (routeId, onPosition) => {
+      const forRoute = (p: VehiclePosition) => {
+        if (p.routeId === routeId) onPosition(p);
+      };
+      listeners.add(forRoute);
+
+      tracks ??= loadTracks();
+      const started = Date.now();
+      let timer: ReturnType<typeof setInterval> | undefined;
+      let stopped = false;
+
+      tracks
+        .then((all) => {
+          if (stopped) return;
+          const replay = all.filter((t) => t.routeId === routeId);
+          timer = setInterval(() => {
+            const elapsed = ((Date.now() - started) / 1000) * speedup;
+            for (const track of replay) {
+              const length = track.points[track.points.length - 1].t - track.points[0].t || 1;
+              const t = track.points[0].t + (elapsed % length);
+              // the last fix at or before the replay clock, like a real feed would have sent
+              const fix = [...track.points].reverse().find((p) => p.t <= t) ?? track.points[0];
+              forRoute({
+                vehicleId: track.vehicleId,
+                routeId: track.routeId,
+                forward: track.forward,
+                coords: fix.coords,
+                reportedAt: Date.now(),
+              });
+            }
+          }, tickMs);
+        })
+        .catch((err) => console.error("Error loading recorded tracks:", err));
+
+      return () => {
+        stopped = true;
+        clearInterval(timer);
+        listeners.delete(forRoute);
+      };
+    },
+    publish: async (position) => {
+      listeners.forEach((listener) => listener(position));
+    },
+  };
+}
+
+/**
+ * The feed the app should use: a replay of the tracks at
+ * VITE_VEHICLE_TRACKS_URL when that is set, Supabase Realtime otherwise.
+ */
+export function defaultVehicleFeed(): VehicleFeed {
+  const tracksUrl = import.meta.env.VITE_VEHICLE_TRACKS_URL as string | undefined;
+  if (!tracksUrl) return supabaseVehicleFeed();
+
+  const speedup = Number(import.meta.env.VITE_VEHICLE_SPEEDUP) || 1;
+  return simulatedVehicleFeed(
+    async () => {
+      const resp = await fetch(tracksUrl);
+      if (!resp.ok) throw new Error(`Tracks not found at ${tracksUrl}`);
+      return parseRecordedTracks(await resp.json());
+    },
+    { speedup }
+  );
+}
@@ -1,12 +1,24 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
-import App from "./App";
+import Root from "./Root";
 import "./index.css";
 import "leaflet/dist/leaflet.css";
 import "./fixLeafletIcons";
+import { PRECACHE_TILES, serviceWorkerUrl } from "./lib/mapTiles";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
+
+// ✅ Offline support: caches the app and the map tiles riders see (production builds only)
+if ("serviceWorker" in navigator && import.meta.env.PROD) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(serviceWorkerUrl(import.meta.env.BASE_URL))
+      .catch((err) => console.warn("Service worker registration failed:", err));
+    // and, where the tile server allows it, the whole of Accra ahead of time
+    if (PRECACHE_TILES) navigator.serviceWorker.ready.then((reg) => reg.active?.postMessage("precache-tiles"));
+  });
+}
@@ -1,38 +1,209 @@
+import type { PassengerType } from "./utils/fareRules";
+
 export interface Stop {
   id: string;
   name: string;
-  coords: [number, number];
+  coords: [number, number]; // [lat, lng]
 }
 
 export interface Route {
   id: string;
   from: string;
   to: string;
+  fromId?: string;
+  toId?: string;
   fare: number;
   distance: number;
   fromCoords: [number, number];
   toCoords: [number, number];
-  intermediates?: { name: string; coords: [number, number] }[];
+  intermediates?: { id?: string; name: string; coords: [number, number] }[];
+  patternId?: string;              // variants of the same line share a pattern id
+  direction?: "outbound" | "inbound";
+  via?: string;                    // what tells this variant apart, e.g. "Legon"
+  oneWay?: boolean;                // only runs from `from` to `to`
+  reverseFare?: number;            // fare for `to` → `from` when it differs from `fare`
+  speedKmh?: number;               // typical speed including traffic
+  loadingWaitMin?: number;         // time spent filling up at the starting station
+  headways?: Headway[];            // minutes between trotros by time of day
+  segmentFares?: number[];         // fare between each pair of consecutive stops, first to last
 }
 
+/** Languages the app is translated into: English, Twi, Ga and Ewe */
+export type Language = "en" | "tw" | "ga" | "ee";
 
-export interface Stop {
-  name: string;
-  coords: [number, number]; // [lat, lng]
+/** Another name riders use for a stop: a nickname, a landmark next to it, or a local-language name */
+export interface StopAlias {
+  stopId: string;
+  alias: string;
+  kind: "alias" | "landmark" | "local";
+  language?: Language;        // for "local" names: shown in place of the stop name in this language
+}
+
+/** "I paid ₵X from A to B on this route", as a passenger reported it */
+export interface FareReport {
+  routeId: string;
+  fromId: string;        // boarding stop
+  toId: string;          // alighting stop
+  fare: number;          // what they paid
+  passenger?: PassengerType; // who paid it; older reports are an adult's
+  luggage?: boolean;     // with a bag surcharge
+  reportedAt: number;    // epoch ms
+}
+
+/** What riders have recently been paying for a ride */
+export interface FareEstimate {
+  fare: number;          // robust median of recent reports
+  count: number;         // reports behind it
 }
 
+/** Minutes between departures from `fromHour` up to (not including) `toHour`, local time */
+export interface Headway {
+  fromHour: number;
+  toHour: number;                  // may be smaller than fromHour for a slot past midnight
+  minutes: number;
+}
 
 export interface RouteLeg {
+  mode: "ride";
+  routeId: string;
+  boardIndex: number;    // position of `from` in the route's stop sequence
+  alightIndex: number;   // position of `to` in the route's stop sequence
   from: string;
   to: string;
-  fare: number;
+  fromId: string;        // stop id (or name, for stops without one)
+  toId: string;
+  fare: number;          // what the rider pays, after fare rules
+  baseFare: number;      // as listed, or as reported when planning with reports
+  fareSource: "listed" | "reported";
   distance: number;
+  waitMinutes: number;   // expected wait before boarding
+  minutes: number;       // in the vehicle
+}
+
+/** Walking between two nearby stops no route links, or to/from a picked place */
+export interface WalkLeg {
+  mode: "walk";
+  from: string;
+  to: string;
+  fromCoords: [number, number];
+  toCoords: [number, number];
+  fare: 0;
+  distance: number;      // km
+  minutes: number;       // at the planner's walking speed
+}
+
+export type PathLeg = RouteLeg | WalkLeg;
+
+/** Fare and length between two consecutive stops of a route */
+export interface RouteHop {
+  from: string;
+  to: string;
+  fare: number;
+  distance: number;      // km
 }
 
 export interface PathResult {
   path: string[];        // stop names in order
-  legs: RouteLeg[];      // legs in order
+  legs: PathLeg[];       // legs in order
   totalFare: number;
   totalDistance: number; // km
-  totalStops: number;    // number of legs
+  totalStops: number;    // number of rides (walks not counted)
+  totalMinutes: number;  // waiting, riding and walking
+  departTime: number;    // epoch ms
+  arriveTime: number;    // epoch ms
+}
+
+export type Priority = "fare" | "distance" | "stops" | "fastest";
+
+/** When a trip happens: leave at a time, or get there by one (epoch ms) */
+export type TripTime = { leaveAt: number } | { arriveBy: number };
+
+/** A spot that is not a stop: the rider's GPS position or a tap on the map */
+export interface PlacePoint {
+  label: string;
+  coords: [number, number];
+}
+
+/** Where a search starts or ends: a stop id (or name), or a place reached on foot */
+export type Endpoint = string | PlacePoint;
+
+/** What an alternative is best at among the options returned with it */
+export type JourneyBadge = "cheapest" | "shortest" | "fewest-changes" | "fastest";
+
+/** One of several alternatives, none of which beats another on every count */
+export interface PathOption extends PathResult {
+  badges: JourneyBadge[];
+}
+
+/** What a reachability search budgets: cedis, km travelled or changes of trotro */
+export type ReachMeasure = "fare" | "distance" | "changes";
+
+/** A stop that can be reached from an origin within some limits, the best way there */
+export interface ReachableStop {
+  stopId: string;        // stop id (or name, for stops without one)
+  name: string;
+  coords: [number, number];
+  fare: number;          // after fare rules
+  distance: number;      // km, walks included
+  changes: number;       // changes of trotro; 0 for one ride or none
+  minutes: number;       // waiting, riding and walking
+}
+
+/** One ride on a single route: board at `from`, stay on through `stops`, alight at `to` */
+export interface JourneyLeg extends RouteLeg {
+  routeLabel: string;
+  routeCoords: [number, number][]; // the whole route, in the direction ridden
+  hops: RouteHop[];                // stop-to-stop fares making up `fare`
+  stops: string[];            // stop names in ride order, boarding and alighting included
+  coords: [number, number][]; // [lat, lng] for each entry of `stops`
+}
+
+/** A walk between two stops, with both ends placed on the map */
+export interface JourneyWalkLeg extends WalkLeg {
+  stops: [string, string];
+  coords: [number, number][];
+}
+
+/** A PathResult resolved against the routes it rides, ready for display */
+export interface Journey extends PathResult {
+  id: string;
+  legs: (JourneyLeg | JourneyWalkLeg)[];
+  transfers: string[];        // stops where the rider changes trotro
+  badges?: JourneyBadge[];    // set when the journey is one of several options
+}
+
+/** A name the rider gives a stop, like "Home" or "Work" */
+export interface SavedPlace {
+  label: string;
+  stopId: string;
+}
+
+/** A trip between two stops, pinned by the rider or remembered from a search */
+export interface SavedTrip {
+  fromId: string;
+  toId: string;
+  savedAt: number;            // ms since epoch; for recent searches, when last searched
+}
+
+/** What a rider keeps between visits, on the device or in their account */
+export interface RiderData {
+  places: SavedPlace[];
+  favourites: SavedTrip[];
+  recent: SavedTrip[];        // newest first
+}
+
+/** Where a trotro is, as its driver or a station master last published it */
+export interface VehiclePosition {
+  vehicleId: string;          // e.g. the number plate
+  routeId: string;
+  forward: boolean;           // heading from the route's first stop towards its last
+  coords: [number, number];
+  reportedAt: number;         // epoch ms
+}
+
+/** When a vehicle should reach a stop, measured along the route */
+export interface VehicleEta {
+  vehicleId: string;
+  distance: number;           // km still to travel along the route
+  minutes: number;
 }
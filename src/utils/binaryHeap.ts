@@ -0,0 +1,55 @@
+/**
+ * Array-backed binary min-heap ordered by `compare` (negative = a first).
+ * push and pop are O(log n), so queues stay fast on large networks.
+ */
+export class BinaryHeap<T> {
+  private items: T[] = [];
+  private readonly compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    // sift up
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  /** Remove and return the smallest item, or undefined when empty */
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length === 0) return top;
+    items[0] = last;
+
+    // sift down
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+      if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+      if (smallest === i) break;
+      [items[i], items[smallest]] = [items[smallest], items[i]];
+      i = smallest;
+    }
+    return top;
+  }
+}
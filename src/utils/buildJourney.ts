@@ -0,0 +1,76 @@
+import type { PathResult, Journey, JourneyLeg, JourneyWalkLeg, RouteHop } from "../types";
+import type { RoutingGraph } from "./routingEngine";
+import { routeLabel, routeStopCoords, routeStopNames } from "./routeSegments";
+
+/**
+ * Scale listed hop fares so they add up to `fare`, what the rider pays once
+ * fare rules or reported fares are applied. Rounding is settled on the last hop.
+ */
+function scaleHops(hops: RouteHop[], fare: number): RouteHop[] {
+  const listed = hops.reduce((acc, h) => acc + h.fare, 0);
+  if (hops.length === 0 || Math.abs(listed - fare) < 0.005) return hops;
+  const scaled = hops.map((h) => ({
+    ...h,
+    fare: Math.round((listed > 0 ? (h.fare * fare) / listed : fare / hops.length) * 100) / 100,
+  }));
+  const rest = scaled.slice(0, -1).reduce((acc, h) => acc + h.fare, 0);
+  scaled[scaled.length - 1].fare = Math.max(Math.round((fare - rest) * 100) / 100, 0);
+  return scaled;
+}
+
+/**
+ * Turn the legs of a PathResult back into rides on actual routes:
+ * each leg gets the stops and coordinates between where it boards and
+ * where it alights, in the direction travelled. Walking legs keep the two
+ * places walked between. Hop fares are scaled to the leg's fare.
+ *
+ * Returns null if a leg points at a route the graph does not know.
+ */
+export function buildJourney(result: PathResult, graph: RoutingGraph): Journey | null {
+  const legs: (JourneyLeg | JourneyWalkLeg)[] = [];
+  for (const leg of result.legs) {
+    if (leg.mode === "walk") {
+      legs.push({ ...leg, stops: [leg.from, leg.to], coords: [leg.fromCoords, leg.toCoords] });
+      continue;
+    }
+
+    const pattern = graph.patternByRouteId.get(leg.routeId);
+    if (!pattern) return null;
+    const { route } = pattern;
+
+    const names = routeStopNames(route);
+    const coords = routeStopCoords(route);
+    const forward = leg.boardIndex < leg.alightIndex;
+    const lo = Math.min(leg.boardIndex, leg.alightIndex);
+    const hi = Math.max(leg.boardIndex, leg.alightIndex);
+
+    const stops = names.slice(lo, hi + 1);
+    const rideCoords = coords.slice(lo, hi + 1);
+    let hops = (forward ? pattern.hops : (pattern.reverseHops ?? pattern.hops)).slice(lo, hi);
+    if (!forward) {
+      stops.reverse();
+      rideCoords.reverse();
+      coords.reverse();
+      hops = hops.reverse().map((h) => ({ ...h, from: h.to, to: h.from }));
+    }
+
+    legs.push({
+      ...leg,
+      routeLabel: routeLabel(route, forward),
+      routeCoords: coords,
+      hops: scaleHops(hops, leg.fare),
+      stops,
+      coords: rideCoords,
+    });
+  }
+
+  const rides = legs.filter((l) => l.mode === "ride");
+  return {
+    ...result,
+    id: legs
+      .map((l) => (l.mode === "walk" ? `walk:${l.from}-${l.to}` : `${l.routeId}:${l.boardIndex}-${l.alightIndex}`))
+      .join(">"),
+    legs,
+    transfers: rides.slice(1).map((l) => l.from),
+  };
+}
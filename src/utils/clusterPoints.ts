@@ -0,0 +1,33 @@
+/** Points that fall in the same grid cell on screen, shown as one marker */
+export interface Cluster<T> {
+  items: T[];
+  coords: [number, number];   // mean [lat, lng] of the items
+}
+
+/**
+ * Group items by a square grid of `cellPx` screen pixels. `project` turns
+ * [lat, lng] into pixels at the current zoom, so clusters split up as the
+ * map zooms in. Cells keep the order their first item came in.
+ */
+export function clusterPoints<T extends { coords: [number, number] }>(
+  items: T[],
+  project: (coords: [number, number]) => [number, number],
+  cellPx = 60
+): Cluster<T>[] {
+  const cells = new Map<string, T[]>();
+  for (const item of items) {
+    const [x, y] = project(item.coords);
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(item);
+    else cells.set(key, [item]);
+  }
+
+  return [...cells.values()].map((cell) => ({
+    items: cell,
+    coords: [
+      cell.reduce((acc, i) => acc + i.coords[0], 0) / cell.length,
+      cell.reduce((acc, i) => acc + i.coords[1], 0) / cell.length,
+    ],
+  }));
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { FareReport } from "../types";
+import { buildFareEstimates, fareReportKey, REPORT_WINDOW_DAYS, robustFare } from "./fareReports";
+
+describe("robustFare", () => {
+  it("is the median of the reports", () => {
+    expect(robustFare([5, 7, 6])).toEqual({ fare: 6, kept: 3 });
+    expect(robustFare([5, 6, 7, 8])).toEqual({ fare: 6.5, kept: 4 });
+  });
+
+  it("drops reports far from the rest", () => {
+    expect(robustFare([6, 6.5, 6, 7, 60, 0.5])).toEqual({ fare: 6.25, kept: 4 });
+  });
+
+  it("drops outliers when most reports agree exactly", () => {
+    expect(robustFare([6, 6, 6, 6, 9])).toEqual({ fare: 6, kept: 4 });
+  });
+
+  it("has nothing to say without reports", () => {
+    expect(robustFare([])).toBeNull();
+  });
+});
+
+describe("buildFareEstimates", () => {
+  // midday, so no late-night surcharge comes into it
+  const now = new Date(2025, 7, 6, 12).getTime();
+  const hour = 60 * 60 * 1000;
+  const report = (fare: number, extra: Partial<FareReport> = {}): FareReport => ({
+    routeId: "r1",
+    fromId: "a",
+    toId: "b",
+    fare,
+    reportedAt: now - hour,
+    ...extra,
+  });
+  const key = fareReportKey("r1", "a", "b");
+
+  it("groups reports by ride", () => {
+    const estimates = buildFareEstimates([report(6), report(6), report(9, { toId: "c" })], now);
+    expect(estimates.get(key)).toEqual({ fare: 6, count: 2 });
+    expect(estimates.get(fareReportKey("r1", "a", "c"))).toEqual({ fare: 9, count: 1 });
+  });
+
+  it("leaves out reports older than the window", () => {
+    const old = now - (REPORT_WINDOW_DAYS * 24 + 1) * hour;
+    const estimates = buildFareEstimates([report(6), report(20, { reportedAt: old })], now);
+    expect(estimates.get(key)).toEqual({ fare: 6, count: 1 });
+  });
+
+  it("counts each report as the fare before its reporter's discount and luggage", () => {
+    const estimates = buildFareEstimates(
+      [report(6), report(3, { passenger: "student" }), report(8, { luggage: true })],
+      now
+    );
+    expect(estimates.get(key)).toEqual({ fare: 6, count: 3 });
+  });
+});
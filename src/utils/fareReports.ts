@@ -0,0 +1,62 @@
+import type { FareReport, FareEstimate } from "../types";
+import { unapplyRiderRules } from "./fareRules";
+
+/** Reports older than this do not count towards an estimate */
+export const REPORT_WINDOW_DAYS = 7;
+/** Reports needed before an estimate is trusted for planning */
+export const MIN_REPORTS_FOR_PLANNING = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Estimates by ride: route, boarding stop and alighting stop */
+export type FareEstimates = Map<string, FareEstimate>;
+
+/** Key of a ride on a route between two stops (ids, or names for stops without one) */
+export const fareReportKey = (routeId: string, fromId: string, toId: string) => `${routeId}|${fromId}|${toId}`;
+
+function median(sorted: number[]): number {
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Robust typical fare of a set of reports: reports further than 3 scaled
+ * median absolute deviations from the median are dropped as typos or jokes,
+ * and the median of the rest is returned with how many were kept.
+ */
+export function robustFare(fares: number[]): { fare: number; kept: number } | null {
+  if (fares.length === 0) return null;
+  const sorted = [...fares].sort((a, b) => a - b);
+  const mid = median(sorted);
+  // 1.4826 makes the MAD comparable to a standard deviation
+  const mad = 1.4826 * median(sorted.map((f) => Math.abs(f - mid)).sort((a, b) => a - b));
+  // with most reports identical the MAD is 0; still drop anything 25% off
+  const tolerance = Math.max(3 * mad, mid * 0.25);
+  const kept = sorted.filter((f) => Math.abs(f - mid) <= tolerance);
+  return { fare: Math.round(median(kept) * 100) / 100, kept: kept.length };
+}
+
+/**
+ * An estimate per ride from the reports of the last week. Each report counts
+ * as the fare before its reporter's own discount, luggage and late-night
+ * surcharge, which planning then applies for the rider asking.
+ */
+export function buildFareEstimates(reports: FareReport[], now = Date.now()): FareEstimates {
+  const since = now - REPORT_WINDOW_DAYS * DAY_MS;
+  const byRide = new Map<string, number[]>();
+  for (const r of reports) {
+    if (r.reportedAt < since || r.reportedAt > now) continue;
+    const key = fareReportKey(r.routeId, r.fromId, r.toId);
+    const list = byRide.get(key) ?? [];
+    const ctx = { passenger: r.passenger ?? "adult", luggage: r.luggage ?? false };
+    list.push(unapplyRiderRules(r.fare, ctx, r.reportedAt));
+    byRide.set(key, list);
+  }
+
+  const estimates: FareEstimates = new Map();
+  for (const [key, fares] of byRide) {
+    const robust = robustFare(fares);
+    if (robust) estimates.set(key, { fare: robust.fare, count: robust.kept });
+  }
+  return estimates;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyFareRules,
+  applyRulesToReportedFare,
+  DEFAULT_FARE_CONTEXT,
+  fareTableFor,
+  roundFare,
+  unapplyRiderRules,
+  type FareTable,
+} from "./fareRules";
+
+const base: FareTable = {
+  version: "2024-01",
+  effectiveFrom: "2024-01-01",
+  adjustmentPct: 0,
+  discountPct: { adult: 0, student: 50, child: 50, senior: 25 },
+  luggageSurcharge: 2,
+  lateNight: { fromHour: 22, toHour: 5, surchargePct: 20 },
+  roundTo: 0.1,
+};
+const tables: FareTable[] = [base, { ...base, version: "2025-07", effectiveFrom: "2025-07-01", adjustmentPct: 15 }];
+
+const at = (year: number, month: number, day: number, hour: number) => new Date(year, month - 1, day, hour).getTime();
+
+describe("fareTableFor", () => {
+  it("picks the latest table already in force", () => {
+    expect(fareTableFor(at(2025, 6, 30, 23), tables).version).toBe("2024-01");
+    expect(fareTableFor(at(2025, 7, 1, 0), tables).version).toBe("2025-07");
+    expect(fareTableFor(at(2030, 1, 1, 12), tables).version).toBe("2025-07");
+  });
+
+  it("does not depend on the order tables are listed in", () => {
+    expect(fareTableFor(at(2025, 8, 1, 12), [...tables].reverse()).version).toBe("2025-07");
+  });
+
+  it("falls back to the first table before any is in force", () => {
+    expect(fareTableFor(at(2020, 1, 1, 12), tables).version).toBe("2024-01");
+  });
+});
+
+describe("applyFareRules", () => {
+  it("adds the adjustment of the table in force on the day", () => {
+    expect(applyFareRules(10, DEFAULT_FARE_CONTEXT, at(2025, 6, 30, 12), tables)).toBe(10);
+    expect(applyFareRules(10, DEFAULT_FARE_CONTEXT, at(2025, 7, 1, 12), tables)).toBe(11.5);
+  });
+
+  it("applies the late-night surcharge across midnight", () => {
+    expect(applyFareRules(10, DEFAULT_FARE_CONTEXT, at(2025, 1, 10, 23), tables)).toBe(12);
+    expect(applyFareRules(10, DEFAULT_FARE_CONTEXT, at(2025, 1, 10, 4), tables)).toBe(12);
+    expect(applyFareRules(10, DEFAULT_FARE_CONTEXT, at(2025, 1, 10, 5), tables)).toBe(10);
+  });
+
+  it("discounts, then adds luggage, then rounds to the coin", () => {
+    expect(applyFareRules(6.66, { passenger: "child", luggage: true }, at(2025, 1, 10, 12), tables)).toBe(5.3);
+  });
+});
+
+describe("rider rules on reported fares", () => {
+  it("skips the adjustment, which reports already include", () => {
+    expect(applyRulesToReportedFare(10, DEFAULT_FARE_CONTEXT, at(2025, 8, 1, 12), tables)).toBe(10);
+  });
+
+  it("takes back out what applyRulesToReportedFare adds", () => {
+    const ctx = { passenger: "student" as const, luggage: true };
+    const time = at(2025, 8, 1, 23);
+    const paid = applyRulesToReportedFare(10, ctx, time, tables);
+    expect(paid).toBe(8);
+    expect(unapplyRiderRules(paid, ctx, time, tables)).toBe(10);
+  });
+});
+
+describe("roundFare", () => {
+  it("rounds to the nearest coin", () => {
+    expect(roundFare(4.37, 0.1)).toBe(4.4);
+    expect(roundFare(4.24, 0.5)).toBe(4);
+    expect(roundFare(4.37, 0)).toBe(4.37);
+  });
+});
@@ -0,0 +1,106 @@
+import fareTablesJson from "../data/fareTables.json";
+
+export type PassengerType = "adult" | "student" | "child" | "senior";
+
+/**
+ * One published set of fare rules. A new table is added (never edited) when
+ * an official fare adjustment takes effect; the listed route fares stay as
+ * they are and `adjustmentPct` carries the change.
+ */
+export interface FareTable {
+  version: string;
+  effectiveFrom: string;                          // ISO date, local time
+  adjustmentPct: number;                          // on top of listed fares
+  discountPct: Record<PassengerType, number>;
+  luggageSurcharge: number;                       // ₵ per ride with a bag
+  lateNight: { fromHour: number; toHour: number; surchargePct: number };
+  roundTo: number;                                // smallest coin in ₵, e.g. 0.1 for 10 pesewas
+}
+
+/** Who is travelling, with what, and when */
+export interface FareContext {
+  passenger: PassengerType;
+  luggage: boolean;
+}
+
+export const FARE_TABLES: FareTable[] = fareTablesJson as FareTable[];
+
+export const DEFAULT_FARE_CONTEXT: FareContext = { passenger: "adult", luggage: false };
+
+/** The table in force at `time` (epoch ms): the latest one already effective */
+export function fareTableFor(time: number, tables: FareTable[] = FARE_TABLES): FareTable {
+  const effective = tables
+    .filter((t) => new Date(`${t.effectiveFrom}T00:00:00`).getTime() <= time)
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  return effective[effective.length - 1] ?? tables[0];
+}
+
+/** Round to the nearest coin, e.g. 4.37 → 4.40 with 10 pesewa coins */
+export function roundFare(amount: number, roundTo: number): number {
+  if (roundTo <= 0) return amount;
+  return Math.round(Math.round(amount / roundTo) * roundTo * 100) / 100;
+}
+
+function isLateNight(table: FareTable, time: number): boolean {
+  const hour = new Date(time).getHours();
+  const { fromHour, toHour } = table.lateNight;
+  return fromHour <= toHour ? hour >= fromHour && hour < toHour : hour >= fromHour || hour < toHour;
+}
+
+/**
+ * What a rider actually pays for one ride with a listed fare of `baseFare`,
+ * boarded at `time`: the fare adjustment, late-night surcharge and passenger
+ * discount in that order, then luggage, rounded to the nearest coin.
+ */
+export function applyFareRules(
+  baseFare: number,
+  ctx: FareContext,
+  time: number,
+  tables: FareTable[] = FARE_TABLES
+): number {
+  const table = fareTableFor(time, tables);
+  return priceRide(baseFare * (1 + table.adjustmentPct / 100), ctx, time, table);
+}
+
+/**
+ * Like applyFareRules, for a fare passengers report paying rather than a
+ * listed one. Reports already include any official adjustment, so only the
+ * rider's own rules apply.
+ */
+export function applyRulesToReportedFare(
+  reportedFare: number,
+  ctx: FareContext,
+  time: number,
+  tables: FareTable[] = FARE_TABLES
+): number {
+  return priceRide(reportedFare, ctx, time, fareTableFor(time, tables));
+}
+
+/**
+ * The fare behind what a rider reports paying: their passenger discount,
+ * luggage and any late-night surcharge at `time` taken back out, so reports
+ * from different riders compare, and applyRulesToReportedFare can price the
+ * ride for someone else.
+ */
+export function unapplyRiderRules(
+  paidFare: number,
+  ctx: FareContext,
+  time: number,
+  tables: FareTable[] = FARE_TABLES
+): number {
+  const table = fareTableFor(time, tables);
+  let fare = paidFare;
+  if (ctx.luggage) fare -= table.luggageSurcharge;
+  const discount = 1 - (table.discountPct[ctx.passenger] ?? 0) / 100;
+  if (discount > 0) fare /= discount;
+  if (isLateNight(table, time)) fare /= 1 + table.lateNight.surchargePct / 100;
+  return Math.max(Math.round(fare * 100) / 100, 0);
+}
+
+function priceRide(fare: number, ctx: FareContext, time: number, table: FareTable): number {
+  if (fare <= 0) return 0;
+  if (isLateNight(table, time)) fare *= 1 + table.lateNight.surchargePct / 100;
+  fare *= 1 - (table.discountPct[ctx.passenger] ?? 0) / 100;
+  if (ctx.luggage) fare += table.luggageSurcharge;
+  return roundFare(fare, table.roundTo);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { Route, Stop } from "../types";
+import { haversineDistance } from "./calcDistance";
+import { exportGtfs, importGtfs, parseCsv, toCsv, unzipGtfs, zipGtfs } from "./gtfs";
+
+const stops: Stop[] = [
+  { id: "circle", name: "Kwame Nkrumah Circle", coords: [5.5697, -0.2172] },
+  { id: "lapaz", name: "Lapaz", coords: [5.6066, -0.2506] },
+  { id: "achimota", name: "Achimota, New Station", coords: [5.6134, -0.2292] },
+];
+const [circle, lapaz, achimota] = stops;
+
+const routes: Route[] = [
+  {
+    id: "circle-achimota",
+    from: circle.name,
+    to: achimota.name,
+    fromId: circle.id,
+    toId: achimota.id,
+    fare: 6,
+    reverseFare: 7,
+    distance: haversineDistance(circle.coords, lapaz.coords) + haversineDistance(lapaz.coords, achimota.coords),
+    fromCoords: circle.coords,
+    toCoords: achimota.coords,
+    intermediates: [{ id: lapaz.id, name: lapaz.name, coords: lapaz.coords }],
+  },
+  {
+    id: "achimota-circle-express",
+    from: achimota.name,
+    to: circle.name,
+    fromId: achimota.id,
+    toId: circle.id,
+    fare: 5,
+    oneWay: true,
+    distance: haversineDistance(achimota.coords, circle.coords),
+    fromCoords: achimota.coords,
+    toCoords: circle.coords,
+  },
+];
+
+describe("GTFS round trip", () => {
+  const imported = importGtfs(unzipGtfs(zipGtfs(exportGtfs(stops, routes))));
+
+  it("keeps every stop", () => {
+    expect(imported.stops).toEqual(stops);
+  });
+
+  it("keeps each route's stops, fares and direction", () => {
+    const summary = (r: Route) => ({
+      id: r.id,
+      fromId: r.fromId,
+      toId: r.toId,
+      via: r.intermediates?.map((s) => s.id) ?? [],
+      fare: r.fare,
+      reverseFare: r.reverseFare,
+      oneWay: r.oneWay ?? false,
+    });
+    expect(imported.routes.map(summary)).toEqual([
+      { id: "circle-achimota", fromId: "circle", toId: "achimota", via: ["lapaz"], fare: 6, reverseFare: 7, oneWay: false },
+      { id: "achimota-circle-express", fromId: "achimota", toId: "circle", via: [], fare: 5, reverseFare: undefined, oneWay: true },
+    ]);
+  });
+
+  it("has nothing to reject or warn about", () => {
+    expect(imported.rejected).toEqual([]);
+    expect(imported.warnings).toEqual([]);
+  });
+});
+
+describe("importGtfs", () => {
+  it("rejects routes without a fare rather than making them free", () => {
+    const files = exportGtfs(stops, routes);
+    files["fare_rules.txt"] = toCsv(["fare_id", "route_id"], []);
+    const imported = importGtfs(files);
+    expect(imported.routes).toEqual([]);
+    expect(imported.rejected.map((r) => r.id)).toEqual(["circle-achimota", "achimota-circle-express"]);
+  });
+
+  it("warns about missing files", () => {
+    expect(importGtfs({}).warnings).toContain("stops.txt is missing from the feed");
+  });
+});
+
+describe("CSV", () => {
+  it("quotes what needs quoting and reads it back", () => {
+    const csv = toCsv(["stop_id", "stop_name"], [["s1", 'Achimota, "New" Station']]);
+    expect(parseCsv(csv)).toEqual([{ stop_id: "s1", stop_name: 'Achimota, "New" Station' }]);
+  });
+});
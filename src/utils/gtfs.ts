@@ -0,0 +1,310 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import type { Stop, Route } from "../types";
+import { validateNetwork, type NetworkData, type RejectedRow, type RouteRow, type StopRow } from "../lib/validateNetwork";
+import { directionalFare, routeLabel, routeStopCoords, routeStopKeys } from "./routeSegments";
+import { rideMinutes } from "./travelTime";
+import { haversineDistance } from "./calcDistance";
+
+/** File name → CSV text of a GTFS feed */
+export type GtfsFiles = Record<string, string>;
+
+type CsvRow = Record<string, string>;
+
+const AGENCY_ID = "trotro";
+const SERVICE_ID = "daily";
+const FIRST_DEPARTURE_MIN = 6 * 60; // stop_times are a template trip leaving 06:00
+const GTFS_BUS = 3;
+const DEFAULT_AGENCY_URL = "https://example.com"; // agency.txt requires one; set VITE_GTFS_AGENCY_URL
+
+/* ---------- CSV ---------- */
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** A CSV file with a header row, quoting fields only where needed */
+export function toCsv(columns: string[], rows: (string | number)[][]): string {
+  return [columns, ...rows].map((r) => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/** Rows of a CSV file keyed by its header, with quoted fields and CRLF handled */
+export function parseCsv(text: string): CsvRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...body] = records.filter((r) => r.some((f) => f.trim().length > 0));
+  if (!header) return [];
+  const columns = header.map((h) => h.trim());
+  return body.map((r) => Object.fromEntries(columns.map((col, idx) => [col, (r[idx] ?? "").trim()])));
+}
+
+/* ---------- export ---------- */
+
+function gtfsTime(minutes: number): string {
+  const secs = Math.round(minutes * 60);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(secs / 3600))}:${pad(Math.floor(secs / 60) % 60)}:${pad(secs % 60)}`;
+}
+
+/**
+ * The network as a GTFS feed. Every route becomes a GTFS route with one trip
+ * per direction it runs in; stop_times are one template trip per direction at
+ * the route's speed. Each stop is its own fare zone, so fare_rules can price
+ * each direction of a route terminal to terminal, reverse fares included.
+ */
+export function exportGtfs(stops: Stop[], routes: Route[], agencyUrl: string = DEFAULT_AGENCY_URL): GtfsFiles {
+  const trips: (string | number)[][] = [];
+  const stopTimes: (string | number)[][] = [];
+  const fares: (string | number)[][] = [];
+  const fareRules: (string | number)[][] = [];
+
+  for (const route of routes) {
+    const keys = routeStopKeys(route);
+    const coords = routeStopCoords(route);
+
+    const addTrip = (forward: boolean) => {
+      const tripId = `${route.id}:${forward ? "out" : "in"}`;
+      trips.push([route.id, SERVICE_ID, tripId, forward ? route.to : route.from, forward ? 0 : 1]);
+
+      const order = keys.map((_, idx) => idx);
+      if (!forward) order.reverse();
+      let minutes = FIRST_DEPARTURE_MIN;
+      order.forEach((idx, seq) => {
+        if (seq > 0) minutes += rideMinutes(route, haversineDistance(coords[order[seq - 1]], coords[idx]));
+        const time = gtfsTime(minutes);
+        stopTimes.push([tripId, time, time, keys[idx], seq + 1]);
+      });
+
+      const fareId = tripId;
+      const [origin, destination] = forward ? [keys[0], keys[keys.length - 1]] : [keys[keys.length - 1], keys[0]];
+      fares.push([fareId, directionalFare(route, forward).toFixed(2), "GHS", 0, 0]);
+      fareRules.push([fareId, route.id, origin, destination]);
+    };
+
+    addTrip(true);
+    if (!route.oneWay) addTrip(false);
+  }
+
+  return {
+    "agency.txt": toCsv(
+      ["agency_id", "agency_name", "agency_url", "agency_timezone"],
+      [[AGENCY_ID, "Accra trotro network", agencyUrl, "Africa/Accra"]]
+    ),
+    "calendar.txt": toCsv(
+      ["service_id", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday", "start_date", "end_date"],
+      [[SERVICE_ID, 1, 1, 1, 1, 1, 1, 1, "20240101", "20991231"]]
+    ),
+    "stops.txt": toCsv(
+      ["stop_id", "stop_name", "stop_lat", "stop_lon", "zone_id"],
+      stops.map((s) => [s.id, s.name, s.coords[0], s.coords[1], s.id])
+    ),
+    "routes.txt": toCsv(
+      ["route_id", "agency_id", "route_short_name", "route_long_name", "route_desc", "route_type"],
+      routes.map((r) => [r.id, AGENCY_ID, "", routeLabel(r), r.via ?? "", GTFS_BUS])
+    ),
+    "trips.txt": toCsv(["route_id", "service_id", "trip_id", "trip_headsign", "direction_id"], trips),
+    "stop_times.txt": toCsv(["trip_id", "arrival_time", "departure_time", "stop_id", "stop_sequence"], stopTimes),
+    "fare_attributes.txt": toCsv(
+      ["fare_id", "price", "currency_type", "payment_method", "transfers"],
+      fares
+    ),
+    "fare_rules.txt": toCsv(["fare_id", "route_id", "origin_id", "destination_id"], fareRules),
+  };
+}
+
+/** A GTFS feed zipped, ready to download */
+export function zipGtfs(files: GtfsFiles): Uint8Array {
+  return zipSync(Object.fromEntries(Object.entries(files).map(([name, text]) => [name, strToU8(text)])));
+}
+
+/* ---------- import ---------- */
+
+/** The contents of a zipped GTFS feed; files not in a feed's root are ignored */
+export function unzipGtfs(zip: Uint8Array): GtfsFiles {
+  const entries = unzipSync(zip);
+  const files: GtfsFiles = {};
+  for (const [path, data] of Object.entries(entries)) {
+    const name = path.split("/").pop() ?? path;
+    if (name.endsWith(".txt")) files[name] = strFromU8(data);
+  }
+  return files;
+}
+
+/** Stops and routes read from a GTFS feed, plus anything that could not be mapped */
+export interface GtfsImport extends NetworkData {
+  warnings: string[];
+}
+
+function parseTime(time: string): number | null {
+  const m = /^(\d+):(\d\d):(\d\d)$/.exec(time);
+  return m ? Number(m[1]) * 60 + Number(m[2]) + Number(m[3]) / 60 : null;
+}
+
+const sameSequence = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * Map a GTFS feed back onto the app's stops and routes.
+ *
+ * Each GTFS route becomes one route following its most common outbound stop
+ * sequence. It runs both ways when some trip covers the same stops in
+ * reverse. Fares come from fare_rules for the route, matched on the
+ * terminals' zones when the feed has them; a route with no fare is skipped,
+ * since saving it would make it free. Other stop sequences of a route are
+ * reported as warnings rather than guessed at. Everything then passes
+ * through the same validation as data from Supabase.
+ */
+export function importGtfs(files: GtfsFiles): GtfsImport {
+  const warnings: string[] = [];
+  const table = (name: string) => (files[name] === undefined ? [] : parseCsv(files[name]));
+  for (const required of ["stops.txt", "routes.txt", "trips.txt", "stop_times.txt"]) {
+    if (files[required] === undefined) warnings.push(`${required} is missing from the feed`);
+  }
+
+  const stopsTxt = table("stops.txt");
+  const stopRows: StopRow[] = stopsTxt
+    .filter((s) => !s.location_type || s.location_type === "0")
+    .map((s) => ({ id: s.stop_id, name: s.stop_name, lat: parseFloat(s.stop_lat), lng: parseFloat(s.stop_lon) }));
+  const zoneOf = new Map(stopsTxt.map((s) => [s.stop_id, s.zone_id || s.stop_id]));
+
+  // stop sequence of every trip
+  const timesByTrip = new Map<string, CsvRow[]>();
+  for (const st of table("stop_times.txt")) {
+    const list = timesByTrip.get(st.trip_id) ?? [];
+    list.push(st);
+    timesByTrip.set(st.trip_id, list);
+  }
+  const tripsByRoute = new Map<string, { direction: string; stops: string[]; minutes: number | null }[]>();
+  for (const trip of table("trips.txt")) {
+    const times = (timesByTrip.get(trip.trip_id) ?? []).sort(
+      (a, b) => Number(a.stop_sequence) - Number(b.stop_sequence)
+    );
+    if (times.length < 2) continue;
+    const start = parseTime(times[0].departure_time || times[0].arrival_time);
+    const end = parseTime(times[times.length - 1].arrival_time || times[times.length - 1].departure_time);
+    const list = tripsByRoute.get(trip.route_id) ?? [];
+    list.push({
+      direction: trip.direction_id || "0",
+      stops: times.map((t) => t.stop_id),
+      minutes: start !== null && end !== null && end > start ? end - start : null,
+    });
+    tripsByRoute.set(trip.route_id, list);
+  }
+
+  // fares per route and pair of zones
+  const price = new Map(table("fare_attributes.txt").map((f) => [f.fare_id, parseFloat(f.price)]));
+  const fareRules = table("fare_rules.txt");
+  const fareFor = (routeId: string, originZone: string, destinationZone: string): number | undefined => {
+    const rules = fareRules.filter((r) => r.route_id === routeId && price.has(r.fare_id));
+    const rule =
+      rules.find((r) => r.origin_id === originZone && r.destination_id === destinationZone) ??
+      rules.find((r) => !r.origin_id && !r.destination_id);
+    return rule ? price.get(rule.fare_id) : undefined;
+  };
+
+  const coordsById = new Map(stopRows.map((s) => [s.id, [s.lat, s.lng] as [number, number]]));
+  const routeRows: RouteRow[] = [];
+  const unpriced: RejectedRow[] = [];
+
+  for (const r of table("routes.txt")) {
+    const trips = tripsByRoute.get(r.route_id) ?? [];
+    const outbound = trips.filter((t) => t.direction === "0");
+    const candidates = outbound.length > 0 ? outbound : trips;
+
+    // most common outbound sequence
+    const counts = new Map<string, { stops: string[]; count: number; minutes: number | null }>();
+    for (const t of candidates) {
+      const key = t.stops.join("\u0000");
+      const seen = counts.get(key) ?? { stops: t.stops, count: 0, minutes: t.minutes };
+      seen.count++;
+      counts.set(key, seen);
+    }
+    const main = [...counts.values()].sort((a, b) => b.count - a.count)[0];
+    if (!main) {
+      warnings.push(`Route ${r.route_id} has no trips with stops`);
+      continue;
+    }
+
+    const reversed = [...main.stops].reverse();
+    const twoWay = trips.some((t) => sameSequence(t.stops, reversed));
+    const others = new Set(
+      trips
+        .map((t) => t.stops)
+        .filter((s) => !sameSequence(s, main.stops) && !(twoWay && sameSequence(s, reversed)))
+        .map((s) => s.join(" → "))
+    );
+    if (others.size > 0) {
+      warnings.push(`Route ${r.route_id}: ${others.size} other stop pattern(s) left out`);
+    }
+
+    const first = main.stops[0];
+    const last = main.stops[main.stops.length - 1];
+    const fare = fareFor(r.route_id, zoneOf.get(first) ?? first, zoneOf.get(last) ?? last);
+    const reverseFare = twoWay ? fareFor(r.route_id, zoneOf.get(last) ?? last, zoneOf.get(first) ?? first) : undefined;
+    if (fare === undefined) {
+      unpriced.push({ table: "routes", id: r.route_id, reason: "no fare in fare_rules for its terminals" });
+      continue;
+    }
+
+    // average speed of the template trip, when its times are usable
+    let speedKmh: number | null = null;
+    if (main.minutes) {
+      let km = 0;
+      for (let i = 1; i < main.stops.length; i++) {
+        const a = coordsById.get(main.stops[i - 1]);
+        const b = coordsById.get(main.stops[i]);
+        if (a && b) km += haversineDistance(a, b);
+      }
+      speedKmh = km > 0 ? Math.round((km / (main.minutes / 60)) * 10) / 10 : null;
+    }
+
+    routeRows.push({
+      id: r.route_id,
+      fare,
+      reverse_fare: reverseFare !== undefined && reverseFare !== fare ? reverseFare : null,
+      one_way: !twoWay,
+      via: r.route_desc || null,
+      speed_kmh: speedKmh,
+      from_stop: { id: first },
+      to_stop: { id: last },
+      route_stops: main.stops.slice(1, -1).map((id, idx) => ({ stop_order: idx + 1, stops: { id } })),
+    });
+  }
+
+  const data = validateNetwork(stopRows, routeRows);
+  return { ...data, rejected: [...unpriced, ...data.rejected], warnings };
+}
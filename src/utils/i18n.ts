@@ -0,0 +1,111 @@
+import type { Language, Stop, StopAlias } from "../types";
+import en from "../data/i18n/en.json";
+import tw from "../data/i18n/tw.json";
+import ga from "../data/i18n/ga.json";
+import ee from "../data/i18n/ee.json";
+
+export type MessageKey = keyof typeof en;
+/** Keys with _one/_other forms, used without the suffix and picked by `count` */
+type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}_one` ? Base : never) : never;
+
+export const LANGUAGE_CODES: Language[] = ["en", "tw", "ga", "ee"];
+
+/** Each language's name for itself, for the switcher */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  tw: "Twi",
+  ga: "Gã",
+  ee: "Eʋegbe",
+};
+
+// Twi, Ga and Ewe only translate some strings so far; the rest fall back to English
+const CATALOGUES: Record<Language, Partial<Record<string, string>>> = { en, tw, ga, ee };
+
+// BCP 47 tags for Intl; runtimes without data for a tag fall back to Ghanaian English
+const LOCALES: Record<Language, string> = {
+  en: "en-GH",
+  tw: "ak-GH",
+  ga: "gaa-GH",
+  ee: "ee-GH",
+};
+
+export function intlLocale(language: Language): string {
+  const tag = LOCALES[language];
+  return Intl.NumberFormat.supportedLocalesOf(tag).length > 0 ? tag : LOCALES.en;
+}
+
+type Vars = Record<string, string | number>;
+
+/** Everything components need to show text, money and distances in one language */
+export interface I18n {
+  language: Language;
+  t(key: MessageKey | PluralKey, vars?: Vars): string;
+  /** "GH₵5.50", or "50p" below one cedi */
+  fare(amount: number): string;
+  /** "450 m" below a kilometre, "3.2 km" above */
+  distance(km: number): string;
+  /** A stop's name in this language when it has one, else as given */
+  stopName(name: string): string;
+}
+
+/**
+ * Local-language names of stops in `language`, keyed by the stop's usual
+ * name, from "local" aliases tagged with that language.
+ */
+export function localStopNames(stops: Stop[], aliases: StopAlias[], language: Language): Map<string, string> {
+  const names = new Map<string, string>();
+  if (language === "en") return names;
+  const byId = new Map(stops.map((s) => [s.id, s]));
+  for (const a of aliases) {
+    const stop = byId.get(a.stopId);
+    if (stop && a.kind === "local" && a.language === language) names.set(stop.name, a.alias);
+  }
+  return names;
+}
+
+export function createI18n(language: Language, stopNames: Map<string, string> = new Map()): I18n {
+  const catalogue = CATALOGUES[language];
+  const locale = intlLocale(language);
+  const plurals = new Intl.PluralRules(locale);
+  const money = new Intl.NumberFormat(locale, { style: "currency", currency: "GHS", minimumFractionDigits: 2 });
+  const metres = new Intl.NumberFormat(locale, { style: "unit", unit: "meter", maximumFractionDigits: 0 });
+  const kilometres = new Intl.NumberFormat(locale, { style: "unit", unit: "kilometer", maximumFractionDigits: 1 });
+
+  const lookup = (key: string) => catalogue[key] ?? (en as Record<string, string>)[key] ?? key;
+
+  const t = (key: string, vars: Vars = {}) => {
+    // "one" / "other" forms; languages without their own plural data use English's rule
+    const count = vars.count;
+    const plural = typeof count === "number" ? `${key}_${plurals.select(count) === "one" ? "one" : "other"}` : null;
+    const template = plural && lookup(plural) !== plural ? lookup(plural) : lookup(key);
+    return template.replace(/\{(\w+)\}/g, (m, name: string) => (name in vars ? String(vars[name]) : m));
+  };
+
+  return {
+    language,
+    t,
+    fare: (amount) =>
+      amount > 0 && amount < 1 ? t("money.pesewas", { count: Math.round(amount * 100) }) : money.format(amount),
+    distance: (km) => (km < 1 ? metres.format(Math.round((km * 1000) / 10) * 10) : kilometres.format(km)),
+    stopName: (name) => stopNames.get(name) ?? name,
+  };
+}
+
+const LANGUAGE_KEY = "trotro.language";
+
+/** The language picked last time, else the browser's if we have it, else English */
+export function savedLanguage(storage: Storage = localStorage): Language {
+  const saved = storage.getItem(LANGUAGE_KEY);
+  if (saved && LANGUAGE_CODES.includes(saved as Language)) return saved as Language;
+  const browser = navigator.language.split("-")[0];
+  if (browser === "ak") return "tw";
+  return LANGUAGE_CODES.includes(browser as Language) ? (browser as Language) : "en";
+}
+
+export function saveLanguage(language: Language, storage: Storage = localStorage): void {
+  try {
+    storage.setItem(LANGUAGE_KEY, language);
+  } catch (err) {
+    console.warn("Could not remember the language:", err);
+  }
+}
@@ -0,0 +1,52 @@
+import type { Journey } from "../types";
+import { formatClock } from "./travelTime";
+import type { I18n } from "./i18n";
+
+/**
+ * A journey as plain sentences, one per step: each walk, each ride with its
+ * fare, each change of trotro, then the totals. For screen readers, which
+ * cannot follow the card's visual layout.
+ */
+export function itineraryText(journey: Journey, { t, fare, distance, stopName }: I18n): string[] {
+  const lines: string[] = [];
+  let step = 0;
+
+  journey.legs.forEach((leg, idx) => {
+    if (leg.mode === "walk") {
+      lines.push(
+        t("itinerary.walk", {
+          n: ++step,
+          from: stopName(leg.from),
+          to: stopName(leg.to),
+          distance: distance(leg.distance),
+          minutes: Math.max(leg.minutes, 1),
+        })
+      );
+      return;
+    }
+    if (journey.legs[idx - 1]?.mode === "ride") {
+      lines.push(t("itinerary.change", { stop: stopName(leg.from) }));
+    }
+    lines.push(
+      t("itinerary.ride", {
+        n: ++step,
+        route: leg.routeLabel,
+        from: stopName(leg.from),
+        to: stopName(leg.to),
+        count: leg.hops.length,
+        fare: fare(leg.fare),
+        minutes: leg.waitMinutes + leg.minutes,
+      })
+    );
+  });
+
+  lines.push(
+    t("itinerary.total", {
+      fare: fare(journey.totalFare),
+      changes: t("journey.changes", { count: journey.transfers.length }),
+      depart: formatClock(journey.departTime),
+      arrive: formatClock(journey.arriveTime),
+    })
+  );
+  return lines;
+}
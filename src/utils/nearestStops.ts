@@ -0,0 +1,19 @@
+import { haversineDistance } from "./calcDistance";
+
+/**
+ * The `limit` items closest to `point` (straight-line km), nearest first.
+ * Items further than `maxKm` are left out, except that the single nearest
+ * one is always returned so a far-off point still snaps somewhere.
+ */
+export function nearestStops<T extends { coords: [number, number] }>(
+  items: T[],
+  point: [number, number],
+  limit = 3,
+  maxKm = Infinity
+): { item: T; distance: number }[] {
+  const ranked = items
+    .map((item) => ({ item, distance: haversineDistance(point, item.coords) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  return ranked.slice(0, limit).filter((r, i) => i === 0 || r.distance <= maxKm);
+}
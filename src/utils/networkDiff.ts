@@ -0,0 +1,83 @@
+import type { Stop, Route } from "../types";
+import { routeStopKeys } from "./routeSegments";
+
+/** What changes between two versions of a set of records, matched by id */
+export interface RecordDiff<T> {
+  added: T[];
+  changed: { before: T; after: T; fields: string[] }[];
+  removed: T[];
+}
+
+export interface NetworkDiff {
+  stops: RecordDiff<Stop>;
+  routes: RecordDiff<Route>;
+}
+
+function diffById<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  changedFields: (a: T, b: T) => string[]
+): RecordDiff<T> {
+  const old = new Map(before.map((r) => [r.id, r]));
+  const incoming = new Set(after.map((r) => r.id));
+  const diff: RecordDiff<T> = { added: [], changed: [], removed: [] };
+
+  for (const record of after) {
+    const prev = old.get(record.id);
+    if (!prev) {
+      diff.added.push(record);
+      continue;
+    }
+    const fields = changedFields(prev, record);
+    if (fields.length > 0) diff.changed.push({ before: prev, after: record, fields });
+  }
+  diff.removed = before.filter((r) => !incoming.has(r.id));
+  return diff;
+}
+
+function stopChanges(a: Stop, b: Stop): string[] {
+  const fields: string[] = [];
+  if (a.name !== b.name) fields.push("name");
+  // about a metre
+  if (Math.abs(a.coords[0] - b.coords[0]) > 1e-5 || Math.abs(a.coords[1] - b.coords[1]) > 1e-5) {
+    fields.push("location");
+  }
+  return fields;
+}
+
+function routeChanges(a: Route, b: Route): string[] {
+  const fields: string[] = [];
+  if (routeStopKeys(a).join("\u0000") !== routeStopKeys(b).join("\u0000")) fields.push("stops");
+  if (a.fare !== b.fare) fields.push("fare");
+  if ((a.reverseFare ?? a.fare) !== (b.reverseFare ?? b.fare)) fields.push("reverse fare");
+  if (!!a.oneWay !== !!b.oneWay) fields.push("one way");
+  if ((a.segmentFares ?? []).join() !== (b.segmentFares ?? []).join()) fields.push("segment fares");
+  return fields;
+}
+
+/**
+ * `incoming` routes with the segment fares of the same route in `current`
+ * wherever its stops and fare are unchanged. Sources without segment fares,
+ * such as GTFS feeds, then leave a route's pricing alone; a route whose stops
+ * or fare do change loses segment fares that no longer fit it.
+ */
+export function keepSegmentFares(incoming: Route[], current: Route[]): Route[] {
+  const byId = new Map(current.map((r) => [r.id, r]));
+  return incoming.map((r) => {
+    const prev = byId.get(r.id);
+    if (r.segmentFares || !prev?.segmentFares) return r;
+    const sameStops = routeStopKeys(prev).join("\u0000") === routeStopKeys(r).join("\u0000");
+    return sameStops && prev.fare === r.fare ? { ...r, segmentFares: prev.segmentFares } : r;
+  });
+}
+
+/** Stops and routes added, changed or missing in `after` compared to `before` */
+export function diffNetwork(
+  before: { stops: Stop[]; routes: Route[] },
+  after: { stops: Stop[]; routes: Route[] }
+): NetworkDiff {
+  return {
+    stops: diffById(before.stops, after.stops, stopChanges),
+    routes: diffById(before.routes, after.routes, routeChanges),
+  };
+}
@@ -0,0 +1,103 @@
+import type { Stop, Route } from "../types";
+import { haversineDistance } from "./calcDistance";
+import { routeLabel, routeStopKeys } from "./routeSegments";
+import { normalizeStopText } from "./stopSearch";
+
+/** Consecutive stops closer than this are probably the same stop twice */
+export const MIN_SEGMENT_KM = 0.02;
+/** Consecutive stops further apart than this are probably a missing stop */
+export const MAX_SEGMENT_KM = 15;
+
+/**
+ * A route running through `stopIds` in order, with its names and
+ * coordinates taken from `stops`. Other route fields come from `base`; with
+ * segment fares, the fare is their sum.
+ */
+export function routeFromSequence(
+  id: string,
+  stopIds: string[],
+  segmentFares: number[] | undefined,
+  stops: Stop[],
+  base: Partial<Route> = {}
+): Route {
+  const byId = new Map(stops.map((s) => [s.id, s]));
+  const seq = stopIds.map((sid) => byId.get(sid)).filter((s) => s !== undefined);
+  const first = seq[0];
+  const last = seq[seq.length - 1];
+  const fare = segmentFares
+    ? Math.round(segmentFares.reduce((acc, f) => acc + f, 0) * 100) / 100
+    : (base.fare ?? 0);
+
+  return {
+    ...base,
+    id,
+    from: first?.name ?? "",
+    to: last?.name ?? "",
+    fromId: first?.id,
+    toId: last?.id,
+    fare,
+    distance: first && last ? haversineDistance(first.coords, last.coords) : 0,
+    fromCoords: first?.coords ?? [0, 0],
+    toCoords: last?.coords ?? [0, 0],
+    intermediates: seq.slice(1, -1).map((s) => ({ id: s.id, name: s.name, coords: s.coords })),
+    segmentFares,
+  };
+}
+
+/**
+ * Problems that must be fixed before an edited network is saved: duplicate
+ * stop names, routes with gaps or repeats in their stop sequence, segments
+ * too short or too long to be real, and missing or bad fares.
+ */
+export function validateNetworkEdit(stops: Stop[], routes: Route[]): string[] {
+  const problems: string[] = [];
+  const byId = new Map(stops.map((s) => [s.id, s]));
+
+  const seenNames = new Map<string, Stop>();
+  for (const stop of stops) {
+    const key = normalizeStopText(stop.name);
+    if (!key) problems.push(`A stop at ${stop.coords.map((c) => c.toFixed(4)).join(", ")} has no name`);
+    const other = seenNames.get(key);
+    if (other) problems.push(`"${stop.name}" and "${other.name}" have the same name`);
+    else seenNames.set(key, stop);
+  }
+
+  for (const route of routes) {
+    const label = routeLabel(route);
+    const keys = routeStopKeys(route);
+    if (keys.length < 2) {
+      problems.push(`${label}: needs at least two stops`);
+      continue;
+    }
+
+    const missing = keys.filter((k) => !byId.has(k));
+    if (missing.length > 0) {
+      problems.push(`${label}: unknown stop ${missing.join(", ")}`);
+      continue;
+    }
+
+    const seen = new Set<string>();
+    keys.forEach((k, idx) => {
+      if (seen.has(k)) problems.push(`${label}: visits ${byId.get(k)!.name} twice`);
+      seen.add(k);
+      if (idx === 0) return;
+
+      const a = byId.get(keys[idx - 1])!;
+      const b = byId.get(k)!;
+      const km = haversineDistance(a.coords, b.coords);
+      if (km < MIN_SEGMENT_KM) problems.push(`${label}: ${a.name} and ${b.name} are on top of each other`);
+      if (km > MAX_SEGMENT_KM) {
+        problems.push(`${label}: ${a.name} → ${b.name} is ${km.toFixed(1)} km; is a stop missing between them?`);
+      }
+    });
+
+    if (!(route.fare > 0)) problems.push(`${label}: needs a fare above ₵0`);
+    const fares = route.segmentFares;
+    if (fares) {
+      if (fares.length !== keys.length - 1) problems.push(`${label}: needs a fare for each of its ${keys.length - 1} segments`);
+      if (fares.some((f) => !Number.isFinite(f) || f < 0)) problems.push(`${label}: segment fares must be 0 or more`);
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { Route, Stop } from "../types";
+import { haversineDistance } from "./calcDistance";
+import { connectedComponents, fareOutliers, hubStops, routeIssues, unservedStops } from "./networkHealth";
+
+const stop = (id: string, lat: number, lng: number): Stop => ({ id, name: id.toUpperCase(), coords: [lat, lng] });
+
+function route(id: string, [first, ...rest]: Stop[], fare: number): Route {
+  const last = rest[rest.length - 1];
+  return {
+    id,
+    from: first.name,
+    to: last.name,
+    fromId: first.id,
+    toId: last.id,
+    fare,
+    distance: haversineDistance(first.coords, last.coords),
+    fromCoords: first.coords,
+    toCoords: last.coords,
+    intermediates: rest.slice(0, -1).map((s) => ({ id: s.id, name: s.name, coords: s.coords })),
+  };
+}
+
+// a line of five stops about a kilometre apart, a separate pair, and a stop nothing serves
+const line = [0, 1, 2, 3, 4].map((i) => stop(`s${i}`, 5.6, -0.2 + 0.01 * i));
+const island = [stop("x", 5.7, -0.1), stop("y", 5.71, -0.1)];
+const lonely = stop("z", 5.5, -0.3);
+const stops = [...line, ...island, lonely];
+const routes = [route("west", line.slice(0, 3), 4), route("east", line.slice(2), 4), route("island", island, 3)];
+
+describe("connectedComponents", () => {
+  it("finds the islands of the network, largest first", () => {
+    expect(connectedComponents(stops, routes).map((g) => g.stopIds)).toEqual([
+      ["s0", "s1", "s2", "s3", "s4"],
+      ["x", "y"],
+    ]);
+  });
+});
+
+describe("hubStops", () => {
+  it("ranks the stop most journeys pass through first", () => {
+    const [top] = hubStops(stops, routes);
+    expect(top).toMatchObject({ stopId: "s2", degree: 2, routes: 2 });
+    expect(top.betweenness).toBeGreaterThan(0);
+  });
+});
+
+describe("unservedStops", () => {
+  it("lists stops no route stops at", () => {
+    expect(unservedStops(stops, routes).map((s) => s.id)).toEqual(["z"]);
+  });
+});
+
+describe("routeIssues", () => {
+  it("flags hops too long to be real and stops far off the line", () => {
+    const far = stop("far", 5.6, -0.1);
+    const offLine = stop("off", 5.62, -0.195);
+    const issues = routeIssues([
+      route("gap", [line[0], far], 5),
+      route("detour", [line[0], offLine, line[1]], 5),
+      ...routes,
+    ]);
+    expect(issues.map((i) => [i.routeId, i.kind, i.via])).toEqual([
+      ["gap", "gap", undefined],
+      ["detour", "detour", "OFF"],
+    ]);
+  });
+});
+
+describe("fareOutliers", () => {
+  it("flags routes charging far more or less per km than the rest", () => {
+    // parallel routes of the same length
+    const parallel = (i: number, fare: number) =>
+      route(`r${i}`, [stop(`a${i}`, 5.6 + 0.01 * i, -0.2), stop(`b${i}`, 5.6 + 0.01 * i, -0.18)], fare);
+    const outliers = fareOutliers([
+      parallel(0, 4),
+      parallel(1, 4.2),
+      parallel(2, 4),
+      parallel(3, 4.1),
+      parallel(4, 20),
+      parallel(5, 0.5),
+    ]);
+    expect(outliers.map((o) => [o.routeId, o.kind])).toEqual([
+      ["r4", "high"],
+      ["r5", "low"],
+    ]);
+  });
+
+  it("needs a few routes to compare", () => {
+    expect(fareOutliers(routes)).toEqual([]);
+  });
+});
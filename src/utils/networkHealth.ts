@@ -0,0 +1,302 @@
+import type { Stop, Route } from "../types";
+import { haversineDistance } from "./calcDistance";
+import { routeLabel, routeStopCoords, routeStopKeys, routeStopNames } from "./routeSegments";
+import { toCsv } from "./gtfs";
+
+/** Consecutive stops of a route further apart than this are a likely missing stop */
+export const MAX_STOP_GAP_KM = 5;
+/** A stop this many times further round than going straight past it is a likely misplaced stop */
+export const DETOUR_RATIO = 3;
+/** ...as long as the extra distance is at least this, so stops a few metres apart are left alone */
+const MIN_DETOUR_KM = 1;
+/** Routes shorter than this are left out of the fare-per-km comparison */
+const MIN_FARE_DISTANCE_KM = 0.5;
+
+/** Stops linked to each other by routes but to nothing else */
+export interface StopGroup {
+  stopIds: string[];
+  names: string[];
+}
+
+/** How central a stop is to the network */
+export interface HubStop {
+  stopId: string;
+  name: string;
+  degree: number;          // distinct stops one hop away on some route
+  routes: number;          // routes stopping here
+  betweenness: number;     // shortest stop-to-stop paths (in hops) passing through
+}
+
+/** Something wrong with the shape of a route */
+export interface RouteIssue {
+  routeId: string;
+  label: string;
+  kind: "gap" | "detour";
+  from: string;            // the hop's first stop, or the stop before a detour
+  to: string;              // the hop's last stop, or the stop after a detour
+  via?: string;            // for a detour: the stop off the line
+  distance: number;        // km: the hop for a gap, the extra distance for a detour
+}
+
+/** A route charging far more or far less per km than the rest */
+export interface FareOutlier {
+  routeId: string;
+  label: string;
+  fare: number;
+  distance: number;        // km
+  farePerKm: number;
+  median: number;          // fare per km across all routes compared
+  kind: "high" | "low";
+}
+
+export interface NetworkHealth {
+  components: StopGroup[]; // largest first; more than one means islands
+  hubs: HubStop[];         // most central first
+  routeIssues: RouteIssue[];
+  unserved: Stop[];
+  fareOutliers: FareOutlier[];
+}
+
+/** Stop id (or name, for route stops without one) → name, for every stop a route or the stop list knows */
+function stopNames(stops: Stop[], routes: Route[]): Map<string, string> {
+  const names = new Map(stops.map((s) => [s.id, s.name]));
+  for (const r of routes) {
+    const keys = routeStopKeys(r);
+    const labels = routeStopNames(r);
+    keys.forEach((k, i) => names.has(k) || names.set(k, labels[i]));
+  }
+  return names;
+}
+
+/** Stops one hop away from each stop on any route, either direction */
+function adjacency(routes: Route[]): Map<string, Set<string>> {
+  const next = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (a === b) return;
+    if (!next.has(a)) next.set(a, new Set());
+    next.get(a)!.add(b);
+  };
+  for (const r of routes) {
+    const keys = routeStopKeys(r);
+    for (let i = 0; i + 1 < keys.length; i++) {
+      link(keys[i], keys[i + 1]);
+      link(keys[i + 1], keys[i]);
+    }
+  }
+  return next;
+}
+
+/** Groups of served stops reachable from each other by riding, largest first */
+export function connectedComponents(stops: Stop[], routes: Route[]): StopGroup[] {
+  const names = stopNames(stops, routes);
+  const next = adjacency(routes);
+  const served = new Set(routes.flatMap(routeStopKeys));
+  const seen = new Set<string>();
+  const groups: StopGroup[] = [];
+
+  for (const start of served) {
+    if (seen.has(start)) continue;
+    const group: string[] = [];
+    const queue = [start];
+    seen.add(start);
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      group.push(key);
+      for (const n of next.get(key) ?? []) {
+        if (!seen.has(n)) {
+          seen.add(n);
+          queue.push(n);
+        }
+      }
+    }
+    groups.push({ stopIds: group, names: group.map((k) => names.get(k) ?? k) });
+  }
+  return groups.sort((a, b) => b.stopIds.length - a.stopIds.length);
+}
+
+/**
+ * Every served stop with its degree and betweenness centrality (Brandes'
+ * algorithm over the unweighted stop graph), most central first.
+ */
+export function hubStops(stops: Stop[], routes: Route[]): HubStop[] {
+  const names = stopNames(stops, routes);
+  const next = adjacency(routes);
+  const keys = [...next.keys()];
+  const betweenness = new Map(keys.map((k) => [k, 0]));
+
+  for (const s of keys) {
+    const order: string[] = [];
+    const preds = new Map<string, string[]>();
+    const paths = new Map<string, number>([[s, 1]]);
+    const hops = new Map<string, number>([[s, 0]]);
+    const queue = [s];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      order.push(v);
+      for (const w of next.get(v) ?? []) {
+        if (!hops.has(w)) {
+          hops.set(w, hops.get(v)! + 1);
+          queue.push(w);
+        }
+        if (hops.get(w) === hops.get(v)! + 1) {
+          paths.set(w, (paths.get(w) ?? 0) + paths.get(v)!);
+          preds.set(w, [...(preds.get(w) ?? []), v]);
+        }
+      }
+    }
+    const delta = new Map<string, number>();
+    for (let i = order.length - 1; i >= 0; i--) {
+      const w = order[i];
+      for (const v of preds.get(w) ?? []) {
+        const share = (paths.get(v)! / paths.get(w)!) * (1 + (delta.get(w) ?? 0));
+        delta.set(v, (delta.get(v) ?? 0) + share);
+      }
+      if (w !== s) betweenness.set(w, betweenness.get(w)! + (delta.get(w) ?? 0));
+    }
+  }
+
+  const routeCount = new Map<string, number>();
+  for (const r of routes) {
+    for (const k of new Set(routeStopKeys(r))) routeCount.set(k, (routeCount.get(k) ?? 0) + 1);
+  }
+
+  return keys
+    .map((k) => ({
+      stopId: k,
+      name: names.get(k) ?? k,
+      degree: next.get(k)!.size,
+      routes: routeCount.get(k) ?? 0,
+      // each pair is counted from both ends on an undirected graph
+      betweenness: Math.round(betweenness.get(k)! / 2),
+    }))
+    .sort((a, b) => b.betweenness - a.betweenness || b.degree - a.degree || a.name.localeCompare(b.name));
+}
+
+/** Hops too long to be real and stops far off the line between their neighbours */
+export function routeIssues(routes: Route[]): RouteIssue[] {
+  const issues: RouteIssue[] = [];
+  for (const r of routes) {
+    const names = routeStopNames(r);
+    const coords = routeStopCoords(r);
+    const base = { routeId: r.id, label: routeLabel(r) };
+
+    for (let i = 0; i + 1 < coords.length; i++) {
+      const hop = haversineDistance(coords[i], coords[i + 1]);
+      if (hop > MAX_STOP_GAP_KM) {
+        issues.push({ ...base, kind: "gap", from: names[i], to: names[i + 1], distance: hop });
+      }
+    }
+    for (let i = 1; i + 1 < coords.length; i++) {
+      const straight = haversineDistance(coords[i - 1], coords[i + 1]);
+      const round = haversineDistance(coords[i - 1], coords[i]) + haversineDistance(coords[i], coords[i + 1]);
+      if (round - straight >= MIN_DETOUR_KM && round > DETOUR_RATIO * straight) {
+        issues.push({
+          ...base,
+          kind: "detour",
+          from: names[i - 1],
+          to: names[i + 1],
+          via: names[i],
+          distance: round - straight,
+        });
+      }
+    }
+  }
+  return issues.sort((a, b) => b.distance - a.distance);
+}
+
+/** Stops in the stop list that no route stops at */
+export function unservedStops(stops: Stop[], routes: Route[]): Stop[] {
+  const served = new Set(routes.flatMap(routeStopKeys));
+  return stops.filter((s) => !served.has(s.id));
+}
+
+/** The value at fraction `q` of sorted numbers, interpolating between neighbours */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Routes whose fare per km lies outside Tukey's fences (1.5 interquartile
+ * ranges beyond the quartiles) of all routes. A route's length is the sum of
+ * its hops, not the straight line between its terminals.
+ */
+export function fareOutliers(routes: Route[]): FareOutlier[] {
+  const rated = routes
+    .map((r) => {
+      const coords = routeStopCoords(r);
+      let distance = 0;
+      for (let i = 0; i + 1 < coords.length; i++) distance += haversineDistance(coords[i], coords[i + 1]);
+      return { route: r, distance, farePerKm: r.fare / distance };
+    })
+    .filter((x) => x.distance >= MIN_FARE_DISTANCE_KM && Number.isFinite(x.farePerKm));
+  if (rated.length < 4) return [];
+
+  const sorted = rated.map((x) => x.farePerKm).sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const median = quantile(sorted, 0.5);
+  const low = q1 - 1.5 * (q3 - q1);
+  const high = q3 + 1.5 * (q3 - q1);
+
+  return rated
+    .filter((x) => x.farePerKm < low || x.farePerKm > high)
+    .map((x) => ({
+      routeId: x.route.id,
+      label: routeLabel(x.route),
+      fare: x.route.fare,
+      distance: x.distance,
+      farePerKm: x.farePerKm,
+      median,
+      kind: x.farePerKm > high ? ("high" as const) : ("low" as const),
+    }))
+    .sort((a, b) => Math.abs(b.farePerKm - median) - Math.abs(a.farePerKm - median));
+}
+
+export function analyseNetwork(stops: Stop[], routes: Route[]): NetworkHealth {
+  return {
+    components: connectedComponents(stops, routes),
+    hubs: hubStops(stops, routes),
+    routeIssues: routeIssues(routes),
+    unserved: unservedStops(stops, routes),
+    fareOutliers: fareOutliers(routes),
+  };
+}
+
+const km = (x: number) => x.toFixed(2);
+
+/** Each part of a health report as CSV for the data team, keyed by file name */
+export function networkHealthCsv(health: NetworkHealth): Record<string, string> {
+  return {
+    "components.csv": toCsv(
+      ["component", "size", "stop_id", "stop_name"],
+      health.components.flatMap((g, i) => g.stopIds.map((id, j) => [i + 1, g.stopIds.length, id, g.names[j]]))
+    ),
+    "hubs.csv": toCsv(
+      ["stop_id", "stop_name", "degree", "routes", "betweenness"],
+      health.hubs.map((h) => [h.stopId, h.name, h.degree, h.routes, h.betweenness])
+    ),
+    "route_issues.csv": toCsv(
+      ["route_id", "route", "issue", "from", "via", "to", "distance_km"],
+      health.routeIssues.map((x) => [x.routeId, x.label, x.kind, x.from, x.via ?? "", x.to, km(x.distance)])
+    ),
+    "unserved_stops.csv": toCsv(
+      ["stop_id", "stop_name", "lat", "lng"],
+      health.unserved.map((s) => [s.id, s.name, s.coords[0], s.coords[1]])
+    ),
+    "fare_outliers.csv": toCsv(
+      ["route_id", "route", "fare", "distance_km", "fare_per_km", "median_fare_per_km", "kind"],
+      health.fareOutliers.map((f) => [
+        f.routeId,
+        f.label,
+        f.fare,
+        km(f.distance),
+        f.farePerKm.toFixed(2),
+        f.median.toFixed(2),
+        f.kind,
+      ])
+    ),
+  };
+}
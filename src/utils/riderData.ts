@@ -0,0 +1,95 @@
+import type { RiderData, SavedPlace, SavedTrip } from "../types";
+
+/** How many recent searches are remembered */
+export const MAX_RECENT_SEARCHES = 10;
+
+export const EMPTY_RIDER_DATA: RiderData = { places: [], favourites: [], recent: [] };
+
+const tripKey = (t: { fromId: string; toId: string }) => `${t.fromId}\u0000${t.toId}`;
+
+function toPlace(value: unknown): SavedPlace | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { label, stopId } = value as Record<string, unknown>;
+  if (typeof label !== "string" || !label.trim() || typeof stopId !== "string" || !stopId) return null;
+  return { label: label.trim(), stopId };
+}
+
+function toTrip(value: unknown): SavedTrip | null {
+  if (typeof value !== "object" || value === null) return null;
+  const { fromId, toId, savedAt } = value as Record<string, unknown>;
+  if (typeof fromId !== "string" || !fromId || typeof toId !== "string" || !toId) return null;
+  return { fromId, toId, savedAt: typeof savedAt === "number" && Number.isFinite(savedAt) ? savedAt : 0 };
+}
+
+function listOf<T>(value: unknown, parse: (v: unknown) => T | null): T[] {
+  return Array.isArray(value) ? value.map(parse).filter((v) => v !== null) : [];
+}
+
+/** Rider data read back from storage; anything malformed is dropped rather than trusted */
+export function parseRiderData(json: unknown): RiderData {
+  if (typeof json !== "object" || json === null) return EMPTY_RIDER_DATA;
+  const { places, favourites, recent } = json as Record<string, unknown>;
+  return {
+    places: listOf(places, toPlace),
+    favourites: listOf(favourites, toTrip),
+    recent: listOf(recent, toTrip).sort((a, b) => b.savedAt - a.savedAt).slice(0, MAX_RECENT_SEARCHES),
+  };
+}
+
+/** Trips from both lists, one per from/to pair, keeping the newest */
+function mergeTrips(a: SavedTrip[], b: SavedTrip[]): SavedTrip[] {
+  const byKey = new Map<string, SavedTrip>();
+  for (const trip of [...a, ...b]) {
+    const prev = byKey.get(tripKey(trip));
+    if (!prev || trip.savedAt > prev.savedAt) byKey.set(tripKey(trip), trip);
+  }
+  return [...byKey.values()].sort((x, y) => y.savedAt - x.savedAt);
+}
+
+/**
+ * Combine what was saved on this device while signed out with what the
+ * account already has. Nothing is lost: places are matched by label, with
+ * the account's stop kept when both name the same label, and trips are
+ * matched by their stops.
+ */
+export function mergeRiderData(account: RiderData, device: RiderData): RiderData {
+  const labels = new Set(account.places.map((p) => p.label.toLowerCase()));
+  return {
+    places: [...account.places, ...device.places.filter((p) => !labels.has(p.label.toLowerCase()))],
+    favourites: mergeTrips(account.favourites, device.favourites),
+    recent: mergeTrips(account.recent, device.recent).slice(0, MAX_RECENT_SEARCHES),
+  };
+}
+
+/** Point a label at a stop, replacing any place with the same label */
+export function savePlace(data: RiderData, label: string, stopId: string): RiderData {
+  const key = label.trim().toLowerCase();
+  return {
+    ...data,
+    places: [...data.places.filter((p) => p.label.toLowerCase() !== key), { label: label.trim(), stopId }],
+  };
+}
+
+export function removePlace(data: RiderData, label: string): RiderData {
+  return { ...data, places: data.places.filter((p) => p.label !== label) };
+}
+
+export function isFavourite(data: RiderData, fromId: string, toId: string): boolean {
+  return data.favourites.some((f) => tripKey(f) === tripKey({ fromId, toId }));
+}
+
+/** Pin the trip, or unpin it when it is already a favourite */
+export function toggleFavourite(data: RiderData, fromId: string, toId: string, now = Date.now()): RiderData {
+  const key = tripKey({ fromId, toId });
+  const favourites = isFavourite(data, fromId, toId)
+    ? data.favourites.filter((f) => tripKey(f) !== key)
+    : [{ fromId, toId, savedAt: now }, ...data.favourites];
+  return { ...data, favourites };
+}
+
+/** Put a search at the top of the recent list, dropping the oldest past the limit */
+export function addRecentSearch(data: RiderData, fromId: string, toId: string, now = Date.now()): RiderData {
+  const key = tripKey({ fromId, toId });
+  const recent = [{ fromId, toId, savedAt: now }, ...data.recent.filter((r) => tripKey(r) !== key)];
+  return { ...data, recent: recent.slice(0, MAX_RECENT_SEARCHES) };
+}
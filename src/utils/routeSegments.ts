@@ -0,0 +1,113 @@
+import type { Route, RouteHop } from "../types";
+import { haversineDistance } from "./calcDistance";
+
+/** Stop names of a route from its first to its last stop */
+export function routeStopNames(route: Route): string[] {
+  return [route.from, ...(route.intermediates?.map((i) => i.name) ?? []), route.to];
+}
+
+/** [lat, lng] of every stop of a route, in the same order as routeStopNames */
+export function routeStopCoords(route: Route): [number, number][] {
+  return [route.fromCoords, ...(route.intermediates?.map((i) => i.coords) ?? []), route.toCoords];
+}
+
+/** Whether a route can be ridden from its last stop back to its first */
+export function runsBackwards(route: Route): boolean {
+  return !route.oneWay;
+}
+
+/** Fare charged for riding a route in the given direction, terminal to terminal */
+export function directionalFare(route: Route, forward: boolean): number {
+  return forward ? route.fare : (route.reverseFare ?? route.fare);
+}
+
+/** Name of a route variant as ridden, e.g. "Madina → Circle via Legon" */
+export function routeLabel(route: Route, forward = true): string {
+  const label = forward ? `${route.from} → ${route.to}` : `${route.to} → ${route.from}`;
+  return route.via ? `${label} via ${route.via}` : label;
+}
+
+/**
+ * Keys of a route's stops in order: the stop id where the route knows it,
+ * otherwise the stop name.
+ */
+export function routeStopKeys(route: Route): string[] {
+  return [
+    route.fromId ?? route.from,
+    ...(route.intermediates?.map((i) => i.id ?? i.name) ?? []),
+    route.toId ?? route.to,
+  ];
+}
+
+const fareKey = (a: string, b: string) => `${a}\u0000${b}`;
+
+/**
+ * Cheapest fare of any route running straight from one stop to another,
+ * keyed by the pair of stop keys. Two-way routes count in both directions.
+ */
+export function buildDirectFares(routesArr: Route[]): Map<string, number> {
+  const fares = new Map<string, number>();
+  const offer = (a: string, b: string, fare: number) => {
+    const key = fareKey(a, b);
+    const known = fares.get(key);
+    if (known === undefined || fare < known) fares.set(key, fare);
+  };
+
+  for (const r of routesArr) {
+    const from = r.fromId ?? r.from;
+    const to = r.toId ?? r.to;
+    offer(from, to, r.fare || 0);
+    if (runsBackwards(r)) offer(to, from, directionalFare(r, false) || 0);
+  }
+  return fares;
+}
+
+/**
+ * Fare and length of each hop between consecutive stops of a route, for
+ * riding it forwards (first stop to last) or backwards. Hops stay in the
+ * route's own order either way; only the fares follow the direction.
+ *
+ * Routes with their own segment fares use those; backwards, they are scaled
+ * to the reverse fare when it differs. Otherwise a hop costs the cheapest
+ * fare of any route running exactly between its two stops in that direction. Hops no route covers on their own split whatever
+ * the known hops leave of this route's fare, by distance, so a whole ride
+ * still adds up to the route's own fare.
+ */
+export function routeHops(route: Route, directFares: Map<string, number>, forward = true): RouteHop[] {
+  const keys = routeStopKeys(route);
+  const names = routeStopNames(route);
+  const coords = routeStopCoords(route);
+
+  if (route.segmentFares?.length === names.length - 1) {
+    const total = route.segmentFares.reduce((acc, f) => acc + f, 0);
+    const scale = !forward && route.reverseFare !== undefined && total > 0 ? route.reverseFare / total : 1;
+    return names.slice(0, -1).map((stop, idx) => ({
+      from: stop,
+      to: names[idx + 1],
+      fare: Math.round(route.segmentFares![idx] * scale * 100) / 100,
+      distance: haversineDistance(coords[idx], coords[idx + 1]),
+    }));
+  }
+
+  const hops = names.slice(0, -1).map((stop, idx) => {
+    const key = forward ? fareKey(keys[idx], keys[idx + 1]) : fareKey(keys[idx + 1], keys[idx]);
+    return {
+      from: stop,
+      to: names[idx + 1],
+      fare: directFares.get(key) ?? null,
+      distance: haversineDistance(coords[idx], coords[idx + 1]),
+    };
+  });
+
+  const unknown = hops.filter((h) => h.fare === null);
+  const unknownDistance = unknown.reduce((acc, h) => acc + h.distance, 0);
+  const knownFare = hops.reduce((acc, h) => acc + (h.fare ?? 0), 0);
+  const remainder = Math.max(directionalFare(route, forward) - knownFare, 0);
+  const share = (distance: number) =>
+    unknownDistance > 0 ? (remainder * distance) / unknownDistance : remainder / unknown.length;
+
+  return hops.map((h) => ({
+    ...h,
+    fare: h.fare ?? Math.round(share(h.distance) * 100) / 100,
+  }));
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import type { Route, Stop } from "../types";
+import { haversineDistance } from "./calcDistance";
+import { BinaryHeap } from "./binaryHeap";
+import { buildRoutingGraph, findBestPath, findJourneyOptions, findReachableStops } from "./routingEngine";
+
+// four stops about a kilometre apart along a street, too far to walk between
+const stops: Stop[] = ["A", "B", "C", "D"].map((name, i) => ({ id: name.toLowerCase(), name, coords: [5.6, -0.2 + 0.01 * i] }));
+
+function route(id: string, from: Stop, to: Stop, fare: number, extra: Partial<Route> = {}): Route {
+  return {
+    id,
+    from: from.name,
+    to: to.name,
+    fromId: from.id,
+    toId: to.id,
+    fare,
+    distance: haversineDistance(from.coords, to.coords),
+    fromCoords: from.coords,
+    toCoords: to.coords,
+    ...extra,
+  };
+}
+
+const [a, b, c, d] = stops;
+// a weekday morning: no late-night surcharge
+const time = { leaveAt: new Date(2025, 7, 6, 10).getTime() };
+
+describe("BinaryHeap", () => {
+  it("pops in comparator order", () => {
+    const heap = new BinaryHeap<number>((x, y) => x - y);
+    [5, 1, 4, 2, 3].forEach((n) => heap.push(n));
+    const popped: number[] = [];
+    while (heap.size > 0) popped.push(heap.pop()!);
+    expect(popped).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe("findJourneyOptions", () => {
+  // a direct trotro, or two cheaper ones with a change at B
+  const graph = buildRoutingGraph(stops, [
+    route("direct", a, c, 10),
+    route("first", a, b, 3),
+    route("second", b, c, 3),
+  ]);
+
+  it("returns the Pareto set, each option badged with what it is best at", () => {
+    const options = findJourneyOptions(graph, "a", "c", "fare", { time });
+    expect(options).toHaveLength(2);
+
+    const [cheap, direct] = options;
+    expect(cheap.legs.map((l) => l.mode === "ride" && l.routeId)).toEqual(["first", "second"]);
+    expect(cheap.badges).toContain("cheapest");
+    expect(direct.legs.map((l) => l.mode === "ride" && l.routeId)).toEqual(["direct"]);
+    expect(direct.badges).toContain("fewest-changes");
+    expect(cheap.totalFare).toBeLessThan(direct.totalFare);
+  });
+
+  it("orders the options by the priority asked for", () => {
+    const [first] = findJourneyOptions(graph, "a", "c", "stops", { time });
+    expect(first.totalStops).toBe(1);
+  });
+
+  it("returns nothing when the destination cannot be reached", () => {
+    expect(findJourneyOptions(graph, "a", "d", "fare", { time })).toEqual([]);
+  });
+});
+
+describe("one-way routes", () => {
+  const graph = buildRoutingGraph(stops, [route("one-way", c, d, 2, { oneWay: true }), route("both", a, b, 2)]);
+
+  it("are ridden from `from` to `to`", () => {
+    expect(findBestPath(graph, "c", "d", "fare", { time })?.legs).toHaveLength(1);
+  });
+
+  it("are not ridden backwards", () => {
+    expect(findBestPath(graph, "d", "c", "fare", { time })).toBeNull();
+    expect(findJourneyOptions(graph, "d", "c", "fare", { time })).toEqual([]);
+  });
+
+  it("run both ways otherwise", () => {
+    expect(findBestPath(graph, "b", "a", "fare", { time })?.legs).toHaveLength(1);
+  });
+});
+
+describe("findReachableStops", () => {
+  const graph = buildRoutingGraph(stops, [route("ab", a, b, 3), route("bc", b, c, 3), route("cd", c, d, 3)]);
+
+  it("keeps to the budget", () => {
+    const all = findReachableStops(graph, "a", {}, "fare", { time });
+    expect(all.map((s) => s.stopId)).toEqual(["b", "c", "d"]);
+
+    const cheapest = all[0].fare;
+    const within = findReachableStops(graph, "a", { maxFare: cheapest }, "fare", { time });
+    expect(within.map((s) => s.stopId)).toEqual(["b"]);
+  });
+
+  it("counts changes of trotro", () => {
+    const reached = findReachableStops(graph, "a", { maxChanges: 1 }, "changes", { time });
+    expect(reached.map((s) => [s.stopId, s.changes])).toEqual([
+      ["b", 0],
+      ["c", 1],
+    ]);
+  });
+});
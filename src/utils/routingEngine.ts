@@ -0,0 +1,817 @@
+import type {
+  Stop,
+  Route,
+  RouteHop,
+  PathLeg,
+  PathResult,
+  PathOption,
+  Priority,
+  JourneyBadge,
+  ReachableStop,
+  ReachMeasure,
+  Endpoint,
+  TripTime,
+} from "../types";
+import { BinaryHeap } from "./binaryHeap";
+import { haversineDistance } from "./calcDistance";
+import { nearestStops } from "./nearestStops";
+import { buildDirectFares, routeHops, routeStopCoords, routeStopKeys, routeStopNames, runsBackwards } from "./routeSegments";
+import { boardingWait, rideMinutes } from "./travelTime";
+import { applyFareRules, applyRulesToReportedFare, DEFAULT_FARE_CONTEXT, type FareContext } from "./fareRules";
+import { fareReportKey, MIN_REPORTS_FOR_PLANNING, type FareEstimates } from "./fareReports";
+
+/** Optional inputs to a search */
+export interface PlanOptions {
+  time?: TripTime;       // defaults to leaving now
+  fares?: FareContext;   // who is paying; an adult without luggage by default
+  reportedFares?: FareEstimates;  // plan with what riders report paying, where enough have
+  limit?: number;        // options to return from findJourneyOptions
+}
+
+/** How the planner treats walking between nearby stops */
+export interface WalkOptions {
+  radiusKm: number;   // stops closer than this get a walking link
+  speedKmh: number;   // for the minutes spent walking
+  penalty: number;    // each km walked weighs like this many km ridden
+}
+
+export const DEFAULT_WALK_OPTIONS: WalkOptions = { radiusKm: 0.4, speedKmh: 4.5, penalty: 2 };
+
+/** A place off the network is reached on foot from up to this many nearby stops */
+const ACCESS_STOPS = 3;
+const ACCESS_RADIUS_KM = 1.5;
+
+/** A route laid over the graph: its stops as node indices plus running totals per direction */
+export interface RoutePattern {
+  route: Route;
+  nodes: number[];
+  hops: RouteHop[];
+  reverseHops: RouteHop[] | null;    // null for one-way routes
+  fareSums: number[];                // fareSums[i] = forward fare from the first stop to stop i
+  reverseFareSums: number[] | null;  // same, charged at the backwards hop fares
+  distanceSums: number[];
+}
+
+/**
+ * Everything the planners need, built once per data load. Stops are nodes
+ * numbered 0..n-1 and keyed by stop id; stops a route names but the stop list
+ * lacks are keyed by name.
+ */
+export interface RoutingGraph {
+  nodeKeys: string[];
+  nodeNames: string[];
+  nodeByKey: Map<string, number>;
+  nodeByName: Map<string, number>;
+  nodeCoords: [number, number][];
+  patterns: RoutePattern[];
+  patternByRouteId: Map<string, RoutePattern>;
+  servedBy: { pattern: number; position: number }[][]; // per node: where routes stop there
+  walks: { to: number; distance: number }[][];         // per node: stops within walking radius
+  walk: WalkOptions;
+}
+
+type Cost = { fare: number; stops: number; distance: number; time: number };
+
+/** A ride from one node to another on one pattern, timed for when it is boarded */
+type Ride = {
+  kind: "ride";
+  to: number;
+  pattern: number;
+  boardIndex: number;
+  alightIndex: number;
+  fare: number;     // what the rider pays
+  baseFare: number; // as listed, or as reported
+  fareSource: "listed" | "reported";
+  distance: number;
+  wait: number;     // minutes
+  minutes: number;  // in the vehicle
+};
+
+/** A walk from one node to a nearby one */
+type Walk = { kind: "walk"; to: number; distance: number; wait: 0; minutes: number };
+
+type Step = Ride | Walk;
+
+const round2 = (x: number) => Math.round(x * 100) / 100;
+
+function prefixSums(values: number[]): number[] {
+  const sums = [0];
+  for (const v of values) sums.push(sums[sums.length - 1] + v);
+  return sums;
+}
+
+/**
+ * Link every pair of nodes within walking radius. Nodes are swept in
+ * latitude order so only neighbours in a narrow band are measured.
+ */
+function addWalkingLinks(graph: RoutingGraph) {
+  const { radiusKm } = graph.walk;
+  if (radiusKm <= 0) return;
+
+  const bandDeg = radiusKm / 111; // ~111 km per degree of latitude
+  const order = graph.nodeCoords.map((_, i) => i).sort((a, b) => graph.nodeCoords[a][0] - graph.nodeCoords[b][0]);
+
+  for (let i = 0; i < order.length; i++) {
+    const a = order[i];
+    for (let j = i + 1; j < order.length; j++) {
+      const b = order[j];
+      if (graph.nodeCoords[b][0] - graph.nodeCoords[a][0] > bandDeg) break;
+      const distance = haversineDistance(graph.nodeCoords[a], graph.nodeCoords[b]);
+      if (distance > radiusKm) continue;
+      graph.walks[a].push({ to: b, distance });
+      graph.walks[b].push({ to: a, distance });
+    }
+  }
+}
+
+export function buildRoutingGraph(
+  stopsArr: Stop[],
+  routesArr: Route[],
+  walk: WalkOptions = DEFAULT_WALK_OPTIONS
+): RoutingGraph {
+  const graph: RoutingGraph = {
+    nodeKeys: [],
+    nodeNames: [],
+    nodeByKey: new Map(),
+    nodeByName: new Map(),
+    nodeCoords: [],
+    patterns: [],
+    patternByRouteId: new Map(),
+    servedBy: [],
+    walks: [],
+    walk,
+  };
+
+  const addNode = (key: string, name: string, coords: [number, number]): number => {
+    const known = graph.nodeByKey.get(key);
+    if (known !== undefined) return known;
+    const idx = graph.nodeKeys.length;
+    graph.nodeKeys.push(key);
+    graph.nodeNames.push(name);
+    graph.nodeCoords.push(coords);
+    graph.nodeByKey.set(key, idx);
+    if (!graph.nodeByName.has(name)) graph.nodeByName.set(name, idx);
+    graph.servedBy.push([]);
+    graph.walks.push([]);
+    return idx;
+  };
+
+  for (const s of stopsArr) addNode(s.id, s.name, s.coords);
+
+  const directFares = buildDirectFares(routesArr);
+  for (const route of routesArr) {
+    const names = routeStopNames(route);
+    const coords = routeStopCoords(route);
+    const nodes = routeStopKeys(route).map(
+      (key, i) => graph.nodeByKey.get(key) ?? graph.nodeByName.get(names[i]) ?? addNode(key, names[i], coords[i])
+    );
+    const hops = routeHops(route, directFares);
+    const reverseHops = runsBackwards(route) ? routeHops(route, directFares, false) : null;
+
+    const patternIdx = graph.patterns.length;
+    const pattern: RoutePattern = {
+      route,
+      nodes,
+      hops,
+      reverseHops,
+      fareSums: prefixSums(hops.map((h) => h.fare)),
+      reverseFareSums: reverseHops ? prefixSums(reverseHops.map((h) => h.fare)) : null,
+      distanceSums: prefixSums(hops.map((h) => h.distance)),
+    };
+    graph.patterns.push(pattern);
+    graph.patternByRouteId.set(route.id, pattern);
+    nodes.forEach((node, position) => graph.servedBy[node].push({ pattern: patternIdx, position }));
+  }
+
+  addWalkingLinks(graph);
+  return graph;
+}
+
+/** Node for a stop id, falling back to a stop name; undefined if unknown */
+export function resolveStop(graph: RoutingGraph, idOrName: string): number | undefined {
+  return graph.nodeByKey.get(idOrName) ?? graph.nodeByName.get(idOrName);
+}
+
+/**
+ * One search over the graph. The origin and destination are two extra
+ * nodes past the stops: the origin walks to where the trip can start and
+ * the destination is walked to from where it can end. For a stop endpoint
+ * that walk is zero metres long and never shows up as a leg.
+ */
+type Query = {
+  source: number;
+  target: number;
+  sourceName: string;
+  targetName: string;
+  sourceCoords: [number, number];
+  targetCoords: [number, number];
+  access: { to: number; distance: number }[];  // from the origin
+  egress: Map<number, number>;                 // stop -> km still to walk to the destination
+  sameStop: boolean;                           // both endpoints are the same stop
+  departTime: number;                          // epoch ms
+  fares: FareContext;
+  reportedFares?: FareEstimates;
+};
+
+/** Stops an endpoint is reached from, with the walk in km; undefined if unknown */
+function endpointLinks(graph: RoutingGraph, endpoint: Endpoint): { node: number; distance: number }[] | undefined {
+  if (typeof endpoint === "string") {
+    const node = resolveStop(graph, endpoint);
+    return node === undefined ? undefined : [{ node, distance: 0 }];
+  }
+  const nodes = graph.nodeCoords.map((coords, node) => ({ node, coords }));
+  const near = nearestStops(nodes, endpoint.coords, ACCESS_STOPS, Math.max(ACCESS_RADIUS_KM, graph.walk.radiusKm));
+  return near.length ? near.map((n) => ({ node: n.item.node, distance: n.distance })) : undefined;
+}
+
+function prepareQuery(
+  graph: RoutingGraph,
+  start: Endpoint,
+  end: Endpoint,
+  departTime: number,
+  options: PlanOptions
+): Query | null {
+  const from = endpointLinks(graph, start);
+  const to = endpointLinks(graph, end);
+  if (!from || !to) return null;
+
+  const target = graph.nodeKeys.length;
+  const source = target + 1;
+  const describe = (endpoint: Endpoint, links: { node: number }[]) =>
+    typeof endpoint === "string"
+      ? { name: graph.nodeNames[links[0].node], coords: graph.nodeCoords[links[0].node] }
+      : { name: endpoint.label, coords: endpoint.coords };
+  const origin = describe(start, from);
+  const destination = describe(end, to);
+
+  return {
+    source,
+    target,
+    sourceName: origin.name,
+    targetName: destination.name,
+    sourceCoords: origin.coords,
+    targetCoords: destination.coords,
+    access: from.map(({ node, distance }) => ({ to: node, distance })),
+    egress: new Map(to.map(({ node, distance }) => [node, distance])),
+    sameStop: typeof start === "string" && typeof end === "string" && from[0].node === to[0].node,
+    departTime,
+    fares: options.fares ?? DEFAULT_FARE_CONTEXT,
+    reportedFares: options.reportedFares,
+  };
+}
+
+function nodeName(graph: RoutingGraph, q: Query, node: number): string {
+  return node === q.source ? q.sourceName : node === q.target ? q.targetName : graph.nodeNames[node];
+}
+
+function nodeCoords(graph: RoutingGraph, q: Query, node: number): [number, number] {
+  return node === q.source ? q.sourceCoords : node === q.target ? q.targetCoords : graph.nodeCoords[node];
+}
+
+/**
+ * Every step that can be taken from `node`, reached `elapsed` minutes into
+ * the trip: a ride along each route serving it, to each later (or, two-way,
+ * earlier) stop, then each walk to a nearby stop or on to the destination.
+ */
+function forEachStep(graph: RoutingGraph, q: Query, node: number, elapsed: number, visit: (step: Step) => void) {
+  const walkTo = (to: number, distance: number): Walk => ({
+    kind: "walk",
+    to,
+    distance,
+    wait: 0,
+    minutes: (distance / graph.walk.speedKmh) * 60,
+  });
+
+  if (node === q.source) {
+    for (const { to, distance } of q.access) visit(walkTo(to, distance));
+    return;
+  }
+
+  const clock = q.departTime + elapsed * 60000;
+  // the listed fare, unless enough riders have reported paying something else
+  const price = (route: Route, to: number, listed: number) => {
+    const reported = q.reportedFares?.get(fareReportKey(route.id, graph.nodeKeys[node], graph.nodeKeys[to]));
+    return reported && reported.count >= MIN_REPORTS_FOR_PLANNING
+      ? {
+          fare: applyRulesToReportedFare(reported.fare, q.fares, clock),
+          baseFare: reported.fare,
+          fareSource: "reported" as const,
+        }
+      : { fare: applyFareRules(listed, q.fares, clock), baseFare: listed, fareSource: "listed" as const };
+  };
+  for (const { pattern: p, position } of graph.servedBy[node]) {
+    const pattern = graph.patterns[p];
+    const { route, nodes, fareSums, distanceSums, reverseFareSums } = pattern;
+
+    const forwardWait = boardingWait(route, position === 0, clock);
+    for (let j = position + 1; j < nodes.length; j++) {
+      const distance = distanceSums[j] - distanceSums[position];
+      visit({
+        kind: "ride",
+        to: nodes[j],
+        pattern: p,
+        boardIndex: position,
+        alightIndex: j,
+        ...price(route, nodes[j], round2(fareSums[j] - fareSums[position])),
+        distance,
+        wait: forwardWait,
+        minutes: rideMinutes(route, distance),
+      });
+    }
+
+    if (reverseFareSums) {
+      const backwardWait = boardingWait(route, position === nodes.length - 1, clock);
+      for (let j = position - 1; j >= 0; j--) {
+        const distance = distanceSums[position] - distanceSums[j];
+        visit({
+          kind: "ride",
+          to: nodes[j],
+          pattern: p,
+          boardIndex: position,
+          alightIndex: j,
+          ...price(route, nodes[j], round2(reverseFareSums[position] - reverseFareSums[j])),
+          distance,
+          wait: backwardWait,
+          minutes: rideMinutes(route, distance),
+        });
+      }
+    }
+  }
+
+  for (const { to, distance } of graph.walks[node]) {
+    visit(walkTo(to, distance));
+  }
+
+  const egress = q.egress.get(node);
+  if (egress !== undefined) visit(walkTo(q.target, egress));
+}
+
+/** What a step adds to the distance the planner compares: walks weigh more than rides */
+function weightedDistance(graph: RoutingGraph, step: Step): number {
+  return step.kind === "walk" ? step.distance * graph.walk.penalty : step.distance;
+}
+
+function toLeg(graph: RoutingGraph, q: Query, from: number, step: Step): PathLeg {
+  if (step.kind === "walk") {
+    return {
+      mode: "walk",
+      from: nodeName(graph, q, from),
+      to: nodeName(graph, q, step.to),
+      fromCoords: nodeCoords(graph, q, from),
+      toCoords: nodeCoords(graph, q, step.to),
+      fare: 0,
+      distance: step.distance,
+      minutes: Math.round(step.minutes),
+    };
+  }
+  return {
+    mode: "ride",
+    routeId: graph.patterns[step.pattern].route.id,
+    boardIndex: step.boardIndex,
+    alightIndex: step.alightIndex,
+    from: nodeName(graph, q, from),
+    to: nodeName(graph, q, step.to),
+    fromId: graph.nodeKeys[from],
+    toId: graph.nodeKeys[step.to],
+    fare: step.fare,
+    baseFare: step.baseFare,
+    fareSource: step.fareSource,
+    distance: step.distance,
+    waitMinutes: Math.round(step.wait),
+    minutes: Math.round(step.minutes),
+  };
+}
+
+/**
+ * Assemble a PathResult from the steps taken, first to last. The zero-length
+ * walks tying a stop endpoint to itself are dropped; totals are real
+ * distances, not walk-weighted ones.
+ */
+function toPathResult(
+  graph: RoutingGraph,
+  q: Query,
+  steps: { from: number; step: Step }[],
+  fare: number
+): PathResult {
+  const taken = steps.filter(({ step }) => step.kind === "ride" || step.distance > 0);
+  const legs = taken.map(({ from, step }) => toLeg(graph, q, from, step));
+  const totalMinutes = Math.round(taken.reduce((acc, { step }) => acc + step.wait + step.minutes, 0));
+
+  return {
+    path: [legs[0]?.from ?? q.sourceName, ...legs.map((l) => l.to)],
+    legs,
+    totalFare: fare,
+    totalDistance: legs.reduce((acc, l) => acc + l.distance, 0),
+    totalStops: legs.filter((l) => l.mode === "ride").length,
+    totalMinutes,
+    departTime: q.departTime,
+    arriveTime: q.departTime + totalMinutes * 60000,
+  };
+}
+
+function emptyPath(q: Query): PathResult {
+  return {
+    path: [q.sourceName],
+    legs: [],
+    totalFare: 0,
+    totalDistance: 0,
+    totalStops: 0,
+    totalMinutes: 0,
+    departTime: q.departTime,
+    arriveTime: q.departTime,
+  };
+}
+
+/** Cost after taking a step */
+function addStep(graph: RoutingGraph, cost: Cost, step: Step): Cost {
+  return {
+    fare: step.kind === "ride" ? round2(cost.fare + step.fare) : cost.fare,
+    stops: step.kind === "ride" ? cost.stops + 1 : cost.stops,
+    distance: cost.distance + weightedDistance(graph, step),
+    time: cost.time + step.wait + step.minutes,
+  };
+}
+
+function costComparator(priority: Priority) {
+  return (a: Cost, b: Cost): number => {
+    if (priority === "fare") {
+      if (a.fare !== b.fare) return a.fare - b.fare;
+      if (a.stops !== b.stops) return a.stops - b.stops;
+      return a.distance - b.distance;
+    } else if (priority === "distance") {
+      if (a.distance !== b.distance) return a.distance - b.distance;
+      if (a.fare !== b.fare) return a.fare - b.fare;
+      return a.stops - b.stops;
+    } else if (priority === "fastest") {
+      if (a.time !== b.time) return a.time - b.time;
+      if (a.fare !== b.fare) return a.fare - b.fare;
+      return a.stops - b.stops;
+    } else {
+      // stops
+      if (a.stops !== b.stops) return a.stops - b.stops;
+      if (a.fare !== b.fare) return a.fare - b.fare;
+      return a.distance - b.distance;
+    }
+  };
+}
+
+/** Order two results the way findBestPath ranks them for a priority */
+export function comparePaths(a: PathResult, b: PathResult, priority: Priority): number {
+  return costComparator(priority)(
+    { fare: a.totalFare, stops: a.totalStops, distance: a.totalDistance, time: a.totalMinutes },
+    { fare: b.totalFare, stops: b.totalStops, distance: b.totalDistance, time: b.totalMinutes }
+  );
+}
+
+/**
+ * Plan for "arrive by": search forwards from a departure time, then move the
+ * departure until the trip lands just before the deadline. Waits depend on
+ * the hour, so a couple of rounds settle it.
+ */
+function departingFor<T extends PathResult>(time: TripTime | undefined, search: (departTime: number) => T[]): T[] {
+  if (!time) return search(Date.now());
+  if ("leaveAt" in time) return search(time.leaveAt);
+
+  let results = search(time.arriveBy);
+  for (let round = 0; round < 3 && results.length; round++) {
+    const latest = Math.max(...results.map((r) => r.arriveTime));
+    if (latest <= time.arriveBy && round > 0) break;
+    const depart = results[0].departTime - (latest - time.arriveBy);
+    results = search(depart);
+  }
+  return results;
+}
+
+/**
+ * Find best path using lexicographic priority:
+ * - priority = "fare" : compare by fare, then stops, then distance
+ * - priority = "distance" : compare by distance, then fare, then stops
+ * - priority = "stops" : compare by number of rides, then fare, then distance
+ * - priority = "fastest" : compare by minutes door to door, then fare, then stops
+ *
+ * `start` and `end` are stop ids (or names), or places walked to from the
+ * nearest stops. Returns PathResult or null if unreachable.
+ */
+export function findBestPath(
+  graph: RoutingGraph,
+  start: Endpoint,
+  end: Endpoint,
+  priority: Priority = "fare",
+  options: PlanOptions = {}
+): PathResult | null {
+  const [found] = departingFor(options.time, (departTime) => {
+    const result = searchBest(graph, start, end, priority, departTime, options);
+    return result ? [result] : [];
+  });
+  return found ?? null;
+}
+
+function searchBest(
+  graph: RoutingGraph,
+  start: Endpoint,
+  end: Endpoint,
+  priority: Priority,
+  departTime: number,
+  options: PlanOptions
+): PathResult | null {
+  const q = prepareQuery(graph, start, end, departTime, options);
+  if (!q) return null;
+
+  // Quick check
+  if (q.sameStop) return emptyPath(q);
+
+  const cmpCost = costComparator(priority);
+  const n = q.source + 1;
+  const best: (Cost | undefined)[] = new Array(n);
+  const prevNode = new Int32Array(n).fill(-1);
+  const prevStep: (Step | undefined)[] = new Array(n);
+  const settled = new Uint8Array(n);
+
+  const origin: Cost = { fare: 0, stops: 0, distance: 0, time: 0 };
+  best[q.source] = origin;
+  const pq = new BinaryHeap<{ node: number; cost: Cost }>((a, b) => cmpCost(a.cost, b.cost));
+  pq.push({ node: q.source, cost: origin });
+
+  while (pq.size > 0) {
+    const { node, cost } = pq.pop()!;
+    if (settled[node]) continue;
+    settled[node] = 1;
+
+    if (node === q.target) break;
+
+    forEachStep(graph, q, node, cost.time, (step) => {
+      if (settled[step.to]) return;
+      const newCost = addStep(graph, cost, step);
+      const known = best[step.to];
+      if (!known || cmpCost(newCost, known) < 0) {
+        best[step.to] = newCost;
+        prevNode[step.to] = node;
+        prevStep[step.to] = step;
+        pq.push({ node: step.to, cost: newCost });
+      }
+    });
+  }
+
+  const cost = best[q.target];
+  if (!settled[q.target] || !cost) return null; // unreachable
+
+  // Walk the predecessor links back from the destination
+  const steps: { from: number; step: Step }[] = [];
+  for (let node = q.target; node !== q.source; node = prevNode[node]) {
+    steps.push({ from: prevNode[node], step: prevStep[node]! });
+  }
+  steps.reverse();
+
+  return toPathResult(graph, q, steps, cost.fare);
+}
+
+/** Safety valve: how many non-dominated partial journeys to keep per stop */
+const MAX_LABELS_PER_STOP = 12;
+
+type Label = {
+  node: number;
+  parent: Label | null;
+  step: Step | null;      // the step that reached `node` from `parent.node`
+  cost: Cost;             // distance walk-weighted by the walking penalty
+  alive: boolean;
+};
+
+/** a is at least as good as b on fare, (walk-weighted) distance, number of rides and time */
+function dominates(a: Label, b: Label): boolean {
+  return (
+    a.cost.fare <= b.cost.fare &&
+    a.cost.distance <= b.cost.distance &&
+    a.cost.stops <= b.cost.stops &&
+    a.cost.time <= b.cost.time
+  );
+}
+
+function onPath(label: Label, node: number): boolean {
+  for (let l: Label | null = label; l; l = l.parent) if (l.node === node) return true;
+  return false;
+}
+
+/**
+ * Find the journeys no other journey beats on fare, distance, number of
+ * changes and travel time at once (the Pareto set), best `limit` first by
+ * `priority`.
+ *
+ * Each option is badged with what it is best at among all those found.
+ * Returns an empty list if the destination is unreachable.
+ */
+export function findJourneyOptions(
+  graph: RoutingGraph,
+  start: Endpoint,
+  end: Endpoint,
+  priority: Priority = "fare",
+  options: PlanOptions = {}
+): PathOption[] {
+  const { limit = 5 } = options;
+  const results = departingFor(options.time, (departTime) =>
+    searchOptions(graph, start, end, departTime, options)
+  );
+  if (results.length === 0) return [];
+
+  const minFare = Math.min(...results.map((r) => r.totalFare));
+  const minDistance = Math.min(...results.map((r) => r.totalDistance));
+  const minStops = Math.min(...results.map((r) => r.totalStops));
+  const minMinutes = Math.min(...results.map((r) => r.totalMinutes));
+
+  return results
+    .sort((a, b) => comparePaths(a, b, priority))
+    .slice(0, limit)
+    .map((r) => {
+      const badges: JourneyBadge[] = [];
+      if (r.totalFare === minFare) badges.push("cheapest");
+      if (r.totalDistance === minDistance) badges.push("shortest");
+      if (r.totalStops === minStops) badges.push("fewest-changes");
+      if (r.totalMinutes === minMinutes) badges.push("fastest");
+      return { ...r, badges };
+    });
+}
+
+function searchOptions(
+  graph: RoutingGraph,
+  start: Endpoint,
+  end: Endpoint,
+  departTime: number,
+  options: PlanOptions
+): PathResult[] {
+  const q = prepareQuery(graph, start, end, departTime, options);
+  if (!q) return [];
+
+  if (q.sameStop) return [emptyPath(q)];
+
+  const labelsAt: Label[][] = Array.from({ length: q.source + 1 }, () => []);
+
+  const first: Label = {
+    node: q.source,
+    parent: null,
+    step: null,
+    cost: { fare: 0, stops: 0, distance: 0, time: 0 },
+    alive: true,
+  };
+  labelsAt[q.source].push(first);
+
+  // cheapest partial journey first
+  const pq = new BinaryHeap<Label>(
+    (A, B) => A.cost.fare - B.cost.fare || A.cost.stops - B.cost.stops || A.cost.distance - B.cost.distance
+  );
+  pq.push(first);
+
+  while (pq.size > 0) {
+    const current = pq.pop()!;
+    if (!current.alive) continue;
+    if (current.node === q.target) continue;
+    if (labelsAt[q.target].some((d) => dominates(d, current))) continue;
+
+    forEachStep(graph, q, current.node, current.cost.time, (step) => {
+      const last = current.step;
+      // staying on the same trotro is already covered by its longer rides,
+      // and two walks in a row are covered by walking straight there
+      if (step.kind === "ride" && last?.kind === "ride" && step.pattern === last.pattern) return;
+      if (step.kind === "walk" && last?.kind === "walk" && last.distance > 0 && step.distance > 0) return;
+      if (onPath(current, step.to)) return;
+
+      const next: Label = {
+        node: step.to,
+        parent: current,
+        step,
+        cost: addStep(graph, current.cost, step),
+        alive: true,
+      };
+
+      const existing = labelsAt[step.to];
+      if (existing.some((l) => dominates(l, next))) return;
+      if (existing.length >= MAX_LABELS_PER_STOP) return;
+
+      labelsAt[step.to] = existing.filter((l) => {
+        if (!dominates(next, l)) return true;
+        l.alive = false;
+        return false;
+      });
+      labelsAt[step.to].push(next);
+      pq.push(next);
+    });
+  }
+
+  return labelsAt[q.target].map((l) => {
+    const steps: { from: number; step: Step }[] = [];
+    for (let at: Label = l; at.parent && at.step; at = at.parent) {
+      steps.push({ from: at.parent.node, step: at.step });
+    }
+    steps.reverse();
+    return toPathResult(graph, q, steps, l.cost.fare);
+  });
+}
+
+/** Budgets a reachability search starts from: ₵10, 5 km or one change */
+export const DEFAULT_REACH_BUDGETS: Record<ReachMeasure, number> = { fare: 10, distance: 5, changes: 1 };
+/** The largest budget a rider can set: ₵50, 30 km or four changes */
+export const MAX_REACH_BUDGETS: Record<ReachMeasure, number> = { fare: 50, distance: 30, changes: 4 };
+
+/** How much of a budget of `measure` getting to a reachable stop uses */
+export const reachCost = (stop: ReachableStop, measure: ReachMeasure): number =>
+  measure === "distance" ? stop.distance : measure === "changes" ? stop.changes : stop.fare;
+
+/** Caps on a reachability search; a cap left out does not apply */
+export interface ReachLimits {
+  maxFare?: number;      // cedis, after fare rules
+  maxDistance?: number;  // km travelled, walks included
+  maxChanges?: number;   // 0 allows one trotro and no change
+}
+
+type ReachLabel = {
+  node: number;
+  step: Step | null;      // the step that reached `node`
+  cost: Cost;
+  km: number;             // real distance; cost.distance is walk-weighted
+};
+
+/** Order labels by the budgeted measure first, then the other two */
+function reachComparator(measure: ReachMeasure) {
+  return (a: ReachLabel, b: ReachLabel): number => {
+    if (measure === "distance") return a.km - b.km || a.cost.fare - b.cost.fare || a.cost.stops - b.cost.stops;
+    if (measure === "changes") return a.cost.stops - b.cost.stops || a.cost.fare - b.cost.fare || a.km - b.km;
+    return a.cost.fare - b.cost.fare || a.cost.stops - b.cost.stops || a.km - b.km;
+  };
+}
+
+/**
+ * Every stop that can be reached from `start` within `limits`, each with the
+ * best way there by `measure`, best first. Walks count the same as in
+ * findBestPath; the origin stop itself is left out. An "arrive by" time is
+ * treated as the departure.
+ */
+export function findReachableStops(
+  graph: RoutingGraph,
+  start: Endpoint,
+  limits: ReachLimits,
+  measure: ReachMeasure = "fare",
+  options: PlanOptions = {}
+): ReachableStop[] {
+  const departTime = !options.time ? Date.now() : "leaveAt" in options.time ? options.time.leaveAt : options.time.arriveBy;
+  const q = prepareQuery(graph, start, start, departTime, options);
+  if (!q) return [];
+  // there is no destination, so nothing walks on to the target node
+  q.egress.clear();
+
+  const { maxFare = Infinity, maxDistance = Infinity, maxChanges = Infinity } = limits;
+  const within = (l: ReachLabel) =>
+    l.cost.fare <= maxFare + 1e-9 && l.km <= maxDistance && l.cost.stops - 1 <= maxChanges;
+  // a is at least as good as b on everything a limit can be put on
+  const covers = (a: ReachLabel, b: ReachLabel) =>
+    a.cost.fare <= b.cost.fare && a.km <= b.km && a.cost.stops <= b.cost.stops;
+
+  const cmp = reachComparator(measure);
+  const labelsAt: ReachLabel[][] = Array.from({ length: q.source + 1 }, () => []);
+  const first: ReachLabel = { node: q.source, step: null, cost: { fare: 0, stops: 0, distance: 0, time: 0 }, km: 0 };
+  const pq = new BinaryHeap<ReachLabel>(cmp);
+  pq.push(first);
+
+  while (pq.size > 0) {
+    const current = pq.pop()!;
+    // a label may have been replaced by a better one after it was queued
+    if (current !== first && !labelsAt[current.node].includes(current)) continue;
+
+    forEachStep(graph, q, current.node, current.cost.time, (step) => {
+      const last = current.step;
+      // the same pruning as searchOptions: one longer ride, or one straight walk, covers these
+      if (step.kind === "ride" && last?.kind === "ride" && step.pattern === last.pattern) return;
+      if (step.kind === "walk" && last?.kind === "walk" && last.distance > 0 && step.distance > 0) return;
+      if (step.to === q.source) return;
+
+      const next: ReachLabel = {
+        node: step.to,
+        step,
+        cost: addStep(graph, current.cost, step),
+        km: current.km + step.distance,
+      };
+      if (!within(next)) return;
+
+      const existing = labelsAt[step.to];
+      if (existing.some((l) => covers(l, next))) return;
+      if (existing.length >= MAX_LABELS_PER_STOP) return;
+      labelsAt[step.to] = [...existing.filter((l) => !covers(next, l)), next];
+      pq.push(next);
+    });
+  }
+
+  const origin = typeof start === "string" ? resolveStop(graph, start) : undefined;
+  const reachable: ReachableStop[] = [];
+  labelsAt.forEach((labels, node) => {
+    if (node >= graph.nodeKeys.length || node === origin || labels.length === 0) return;
+    const best = labels.reduce((a, b) => (cmp(b, a) < 0 ? b : a));
+    reachable.push({
+      stopId: graph.nodeKeys[node],
+      name: graph.nodeNames[node],
+      coords: graph.nodeCoords[node],
+      fare: best.cost.fare,
+      distance: best.km,
+      changes: Math.max(0, best.cost.stops - 1),
+      minutes: Math.round(best.cost.time),
+    });
+  });
+
+  return reachable.sort((a, b) => reachCost(a, measure) - reachCost(b, measure) || a.fare - b.fare);
+}
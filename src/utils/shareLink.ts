@@ -0,0 +1,59 @@
+import type { Endpoint, Priority } from "../types";
+
+/** A search as carried in a link: enough to plan it again and pick the same itinerary */
+export interface SharedSearch {
+  from: Endpoint;             // stop id, or a place for pins and GPS positions
+  to: Endpoint;
+  priority: Priority;
+  roadRouting: boolean;
+  alternatives: boolean;
+  selectedId?: string;        // Journey.id of the itinerary on screen
+}
+
+const PRIORITIES: Priority[] = ["fare", "distance", "stops", "fastest"];
+
+// places are written "@lat,lng"; about a metre is precise enough
+function encodeEndpoint(end: Endpoint): string {
+  return typeof end === "string" ? end : `@${end.coords[0].toFixed(5)},${end.coords[1].toFixed(5)}`;
+}
+
+function decodeEndpoint(value: string | null, placeLabel: string): Endpoint | null {
+  if (!value) return null;
+  if (!value.startsWith("@")) return value;
+  const [lat, lng] = value.slice(1).split(",").map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { label: placeLabel, coords: [lat, lng] };
+}
+
+/** Query string for a search, e.g. "?from=s12&to=s40&priority=fare&road=1" */
+export function encodeSharedSearch(search: SharedSearch): string {
+  const params = new URLSearchParams();
+  params.set("from", encodeEndpoint(search.from));
+  params.set("to", encodeEndpoint(search.to));
+  params.set("priority", search.priority);
+  if (search.roadRouting) params.set("road", "1");
+  if (search.alternatives) params.set("alts", "1");
+  if (search.selectedId) params.set("selectedRouteId", search.selectedId);
+  return `?${params.toString()}`;
+}
+
+/**
+ * The search in a query string, or null when it does not name both ends.
+ * Places carry no name in a link, so they are labelled `placeLabel`.
+ */
+export function decodeSharedSearch(query: string, placeLabel: string): SharedSearch | null {
+  const params = new URLSearchParams(query);
+  const from = decodeEndpoint(params.get("from"), placeLabel);
+  const to = decodeEndpoint(params.get("to"), placeLabel);
+  if (!from || !to) return null;
+
+  const priority = params.get("priority") as Priority | null;
+  return {
+    from,
+    to,
+    priority: priority && PRIORITIES.includes(priority) ? priority : "fare",
+    roadRouting: params.get("road") === "1",
+    alternatives: params.get("alts") === "1",
+    selectedId: params.get("selectedRouteId") ?? undefined,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { Stop, StopAlias } from "../types";
+import { bestStopMatch, buildStopIndex, normalizeStopText, searchStops } from "./stopSearch";
+
+describe("normalizeStopText", () => {
+  it("lowercases and drops accents and punctuation", () => {
+    expect(normalizeStopText("  Kwame Nkrumah Circle ")).toBe("kwame nkrumah circle");
+    expect(normalizeStopText("Achimota, New-Station")).toBe("achimota new station");
+    expect(normalizeStopText("Adabraka Café")).toBe("adabraka cafe");
+  });
+
+  it("keeps letters of Ghanaian languages", () => {
+    expect(normalizeStopText("Ɛkɔ Junction")).toBe("ɛkɔ junction");
+    expect(normalizeStopText("Ŋkɔ, ʋɔ")).toBe("ŋkɔ ʋɔ");
+  });
+
+  it("keeps digits", () => {
+    expect(normalizeStopText("37 Station")).toBe("37 station");
+  });
+});
+
+const stops: Stop[] = [
+  { id: "circle", name: "Kwame Nkrumah Circle", coords: [5.5697, -0.2172] },
+  { id: "37", name: "37 Station", coords: [5.5878, -0.1836] },
+  { id: "kaneshie", name: "Kaneshie Market", coords: [5.5667, -0.2333] },
+  { id: "kotobabi", name: "Kotobabi", coords: [5.5936, -0.2128] },
+];
+const aliases: StopAlias[] = [
+  { stopId: "circle", alias: "Circle", kind: "alias" },
+  { stopId: "kaneshie", alias: "Kanɛshie", kind: "local", language: "tw" },
+];
+const index = buildStopIndex(stops, [], aliases);
+
+describe("searchStops", () => {
+  it("finds stops by any word of their name", () => {
+    expect(searchStops(index, "market")[0].stop.id).toBe("kaneshie");
+  });
+
+  it("forgives a typo", () => {
+    expect(bestStopMatch(index, "Kaneshi Markt")?.stop.id).toBe("kaneshie");
+  });
+
+  it("matches aliases and says which one", () => {
+    const [top] = searchStops(index, "circle");
+    expect(top.stop.id).toBe("circle");
+    expect(top.matched).toBe("Circle");
+  });
+
+  it("matches local names written with ɛ", () => {
+    const top = bestStopMatch(index, "Kanɛshie");
+    expect(top?.stop.id).toBe("kaneshie");
+    expect(top?.matched).toBe("Kanɛshie");
+  });
+
+  it("returns nothing for empty or unknown text", () => {
+    expect(searchStops(index, " , ")).toEqual([]);
+    expect(bestStopMatch(index, "Tema")).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import type { Stop, Route, StopAlias } from "../types";
+import { routeStopKeys } from "./routeSegments";
+import { haversineDistance } from "./calcDistance";
+
+/** One searchable name of a stop: its own name or one of its aliases */
+interface IndexEntry {
+  stop: Stop;
+  label: string;          // as shown, e.g. "Accra Mall"
+  alias: boolean;
+  text: string;           // normalised
+  tokens: string[];
+}
+
+export interface StopIndex {
+  entries: IndexEntry[];
+  popularity: Map<string, number>;   // routes through each stop, by stop id
+}
+
+export interface StopMatch {
+  stop: Stop;
+  matched: string | null;   // the alias that matched, when not the stop's own name
+  score: number;            // 0..~1.1, higher is better
+}
+
+/** Lowercase, no accents or punctuation, single spaces; letters such as ɛ, ɔ and ŋ are kept */
+export function normalizeStopText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Everything a stop can be searched by. A stop's popularity is the number of
+ * routes through it, so busy stations rank above quiet stops of similar name.
+ */
+export function buildStopIndex(stops: Stop[], routes: Route[], aliases: StopAlias[] = []): StopIndex {
+  const popularity = new Map<string, number>();
+  for (const r of routes) {
+    for (const key of new Set(routeStopKeys(r))) popularity.set(key, (popularity.get(key) ?? 0) + 1);
+  }
+
+  const byId = new Map(stops.map((s) => [s.id, s]));
+  const entry = (stop: Stop, label: string, alias: boolean): IndexEntry => {
+    const text = normalizeStopText(label);
+    return { stop, label, alias, text, tokens: text.split(" ").filter(Boolean) };
+  };
+
+  const entries = stops.map((s) => entry(s, s.name, false));
+  for (const a of aliases) {
+    const stop = byId.get(a.stopId);
+    if (stop) entries.push(entry(stop, a.alias, true));
+  }
+  return { entries, popularity };
+}
+
+/** Edit distance, with a cut-off: anything above `max` is reported as max + 1 */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * How well one typed word matches a word of a name: 1 for the same word or
+ * the start of it, less for each typo. Words still being typed are compared
+ * with the start of the name's word.
+ */
+function wordScore(typed: string, word: string): number {
+  if (word === typed || word.startsWith(typed)) return 1;
+  const allowed = typed.length <= 3 ? 0 : typed.length <= 6 ? 1 : 2;
+  if (allowed === 0) return 0;
+  const whole = editDistance(typed, word, allowed);
+  const start = editDistance(typed, word.slice(0, typed.length), allowed);
+  const typos = Math.min(whole, start);
+  return typos > allowed ? 0 : 1 - typos / (typed.length + 1);
+}
+
+function entryScore(query: string, tokens: string[], entry: IndexEntry): number {
+  if (entry.text === query) return 1;
+  if (entry.text.startsWith(query)) return 0.95;
+
+  // every typed word has to match some word of the name
+  let total = 0;
+  for (const typed of tokens) {
+    const best = Math.max(0, ...entry.tokens.map((w) => wordScore(typed, w)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  // a little less for names with many words the rider did not type
+  const coverage = tokens.length / Math.max(entry.tokens.length, tokens.length);
+  return 0.85 * (total / tokens.length) * (0.8 + 0.2 * coverage);
+}
+
+/**
+ * Stops matching what a rider typed, best first. Names and aliases match
+ * whole, by the start, by any of their words, or with a typo or two. Busy
+ * stops, and stops near `near` when given, rank a little higher.
+ */
+export function searchStops(
+  index: StopIndex,
+  text: string,
+  { near, limit = 8 }: { near?: [number, number]; limit?: number } = {}
+): StopMatch[] {
+  const query = normalizeStopText(text);
+  if (!query) return [];
+  const tokens = query.split(" ");
+
+  const best = new Map<string, StopMatch>();
+  for (const entry of index.entries) {
+    const match = entryScore(query, tokens, entry);
+    if (match === 0) continue;
+
+    const routes = index.popularity.get(entry.stop.id) ?? index.popularity.get(entry.stop.name) ?? 0;
+    const nearby = near ? Math.max(0, 0.05 - haversineDistance(near, entry.stop.coords) * 0.005) : 0;
+    const score = match + Math.min(Math.log1p(routes) * 0.02, 0.05) + nearby;
+
+    const known = best.get(entry.stop.id);
+    if (!known || score > known.score) {
+      best.set(entry.stop.id, { stop: entry.stop, matched: entry.alias ? entry.label : null, score });
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/** The stop a rider most likely meant, or null when nothing is close enough */
+export function bestStopMatch(
+  index: StopIndex,
+  text: string,
+  options: { near?: [number, number] } = {}
+): StopMatch | null {
+  const [top] = searchStops(index, text, { ...options, limit: 1 });
+  return top && top.score >= 0.6 ? top : null;
+}
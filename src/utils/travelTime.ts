@@ -0,0 +1,37 @@
+import type { Route } from "../types";
+
+/** Typical trotro speed in Accra traffic when a route does not say */
+export const DEFAULT_SPEED_KMH = 18;
+/** Minutes between departures when a route has no headway for the hour */
+export const DEFAULT_HEADWAY_MIN = 10;
+/** Minutes a trotro sits at its station filling up when a route does not say */
+export const DEFAULT_LOADING_WAIT_MIN = 10;
+
+/** Minutes between trotros on a route at a given time (epoch ms, local clock) */
+export function headwayAt(route: Route, time: number): number {
+  const hour = new Date(time).getHours();
+  const slot = route.headways?.find((h) =>
+    h.fromHour <= h.toHour ? hour >= h.fromHour && hour < h.toHour : hour >= h.fromHour || hour < h.toHour
+  );
+  return slot?.minutes ?? DEFAULT_HEADWAY_MIN;
+}
+
+/**
+ * Expected minutes waiting to board a route at a given time. At the
+ * station a ride starts from, the trotro leaves once it has loaded; further
+ * along, the rider waits half a headway on average.
+ */
+export function boardingWait(route: Route, boardsAtStation: boolean, time: number): number {
+  if (boardsAtStation) return route.loadingWaitMin ?? DEFAULT_LOADING_WAIT_MIN;
+  return headwayAt(route, time) / 2;
+}
+
+/** Minutes in the vehicle for a ride of `distanceKm` */
+export function rideMinutes(route: Route, distanceKm: number): number {
+  return (distanceKm / (route.speedKmh ?? DEFAULT_SPEED_KMH)) * 60;
+}
+
+/** "07:45" for an epoch ms time */
+export function formatClock(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Route, Stop } from "../types";
+import { replayedLocation } from "../lib/geolocation";
+import { buildJourney } from "./buildJourney";
+import { haversineDistance } from "./calcDistance";
+import { buildRoutingGraph, findBestPath } from "./routingEngine";
+import { advanceGuide, guideStops, OFF_ROUTE_KM, upcomingAlight } from "./tripGuide";
+
+// five stops about a kilometre apart; one trotro to the middle one, another on to the end
+const stops: Stop[] = [0, 1, 2, 3, 4].map((i) => ({ id: `s${i}`, name: `Stop ${i}`, coords: [5.6, -0.2 + 0.01 * i] }));
+
+function route(id: string, [first, ...rest]: Stop[], fare: number): Route {
+  const last = rest[rest.length - 1];
+  return {
+    id,
+    from: first.name,
+    to: last.name,
+    fromId: first.id,
+    toId: last.id,
+    fare,
+    distance: haversineDistance(first.coords, last.coords),
+    fromCoords: first.coords,
+    toCoords: last.coords,
+    intermediates: rest.slice(0, -1).map((s) => ({ id: s.id, name: s.name, coords: s.coords })),
+  };
+}
+
+const graph = buildRoutingGraph(stops, [route("first", stops.slice(0, 3), 4), route("second", stops.slice(2), 4)]);
+const journey = buildJourney(findBestPath(graph, "s0", "s4", "fare")!, graph)!;
+const guide = guideStops(journey);
+
+// halfway between two stops, a little off the road
+const between = (i: number): [number, number] => [5.6002, -0.2 + 0.01 * i + 0.005];
+
+describe("guideStops", () => {
+  it("lists each stop once, flagging where the rider gets off", () => {
+    expect(guide.map((s) => [s.name, s.alight, s.final])).toEqual([
+      ["Stop 0", false, false],
+      ["Stop 1", false, false],
+      ["Stop 2", true, false],
+      ["Stop 3", false, false],
+      ["Stop 4", true, true],
+    ]);
+  });
+});
+
+describe("advanceGuide", () => {
+  it("moves on only once a stop is reached", () => {
+    expect(advanceGuide(guide, 0, between(0)).passed).toBe(0);
+    expect(advanceGuide(guide, 0, stops[1].coords).passed).toBe(1);
+  });
+
+  it("never goes back", () => {
+    expect(advanceGuide(guide, 2, stops[1].coords).passed).toBe(2);
+  });
+
+  it("measures how far off route the rider is", () => {
+    expect(advanceGuide(guide, 0, between(0)).offRouteKm).toBeLessThan(OFF_ROUTE_KM);
+    expect(advanceGuide(guide, 0, [5.62, -0.195]).offRouteKm).toBeGreaterThan(OFF_ROUTE_KM);
+  });
+});
+
+describe("get-down alerts", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("warn one stop ahead of each change and of the end, following a recorded track", async () => {
+    vi.useFakeTimers();
+    const track = [stops[0].coords, between(0), stops[1].coords, between(1), stops[2].coords, between(2), stops[3].coords, between(3), stops[4].coords];
+    const location = replayedLocation(() => Promise.resolve(track.map((coords, t) => ({ t, coords }))));
+
+    const alerts: string[] = [];
+    let passed = 0;
+    const stop = location.watchPosition((coords) => {
+      const progress = advanceGuide(guide, passed, coords);
+      if (progress.passed === passed) return;
+      passed = progress.passed;
+      const alert = upcomingAlight(guide, passed);
+      if (alert) alerts.push(`${alert.change ? "change at" : "get down at"} ${alert.stop.name}`);
+    });
+    await vi.advanceTimersByTimeAsync(track.length * 1000);
+    stop();
+
+    expect(passed).toBe(4);
+    expect(alerts).toEqual(["change at Stop 2", "get down at Stop 4"]);
+  });
+
+  it("are not given away from a stop before the alighting one", () => {
+    expect(upcomingAlight(guide, 0)).toBeNull();
+    expect(upcomingAlight(guide, 4)).toBeNull();
+  });
+});
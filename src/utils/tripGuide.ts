@@ -0,0 +1,80 @@
+import type { Journey } from "../types";
+import { haversineDistance } from "./calcDistance";
+import { projectOntoLine } from "./vehicleEta";
+
+/** Within this of a stop counts as being at it */
+export const AT_STOP_KM = 0.05;
+/** Further than this from the journey's line counts as off route */
+export const OFF_ROUTE_KM = 0.3;
+/** How many stops ahead a fix may jump, so a loop passing near a later stop is not mistaken for it */
+const LOOKAHEAD_STOPS = 3;
+
+/** One stop of a journey in travel order, with what the rider does there */
+export interface GuideStop {
+  name: string;
+  coords: [number, number];
+  legIndex: number;          // leg that arrives at (or starts from) this stop
+  alight: boolean;           // the rider gets off a trotro here
+  final: boolean;            // the end of the journey
+}
+
+/** Where the rider is along a journey */
+export interface GuideProgress {
+  passed: number;            // index of the last stop reached
+  offRouteKm: number;        // distance from the journey's line at the last fix
+}
+
+/**
+ * Every stop of a journey in the order the rider passes them. Where one leg
+ * ends and the next begins at the same stop, it appears once, flagged as
+ * the alighting stop of the earlier leg.
+ */
+export function guideStops(journey: Journey): GuideStop[] {
+  const stops: GuideStop[] = [];
+  journey.legs.forEach((leg, legIndex) => {
+    leg.stops.forEach((name, j) => {
+      const prev = stops[stops.length - 1];
+      if (j === 0 && prev?.name === name) return;
+      stops.push({
+        name,
+        coords: leg.coords[j],
+        legIndex,
+        alight: leg.mode === "ride" && j === leg.stops.length - 1,
+        final: false,
+      });
+    });
+  });
+  if (stops.length > 0) stops[stops.length - 1].final = true;
+  return stops;
+}
+
+/**
+ * Move the rider's progress on from `passed` given a new fix. Progress never
+ * goes back: GPS jitter near a stop must not re-announce it.
+ */
+export function advanceGuide(stops: GuideStop[], passed: number, coords: [number, number]): GuideProgress {
+  if (stops.length === 0) return { passed, offRouteKm: 0 };
+  if (stops.length === 1) return { passed: 0, offRouteKm: haversineDistance(stops[0].coords, coords) };
+
+  let best = { passed, offRouteKm: Infinity };
+  const last = Math.min(stops.length - 1, passed + LOOKAHEAD_STOPS);
+  for (let k = Math.max(0, passed); k < last; k++) {
+    const a = stops[k];
+    const b = stops[k + 1];
+    const { offset } = projectOntoLine([a.coords, b.coords], coords);
+    if (offset >= best.offRouteKm) continue;
+    const reached = haversineDistance(b.coords, coords) <= AT_STOP_KM ? k + 1 : k;
+    best = { passed: reached, offRouteKm: offset };
+  }
+  return { passed: Math.max(passed, best.passed), offRouteKm: best.offRouteKm };
+}
+
+/**
+ * The stop to warn about, if the rider has reached the stop just before
+ * one where they must get off; `change` when another trotro follows.
+ */
+export function upcomingAlight(stops: GuideStop[], passed: number): { stop: GuideStop; change: boolean } | null {
+  const next = stops[passed + 1];
+  if (!next?.alight) return null;
+  return { stop: next, change: !next.final };
+}
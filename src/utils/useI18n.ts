@@ -0,0 +1,9 @@
+import { createContext, useContext } from "react";
+import { createI18n, type I18n } from "./i18n";
+
+/** The rider's language; pages outside the planner get English */
+export const I18nContext = createContext<I18n>(createI18n("en"));
+
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
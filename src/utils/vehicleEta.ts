@@ -0,0 +1,87 @@
+import type { Route, VehicleEta, VehiclePosition } from "../types";
+import { haversineDistance } from "./calcDistance";
+import { routeStopCoords } from "./routeSegments";
+import { DEFAULT_SPEED_KMH } from "./travelTime";
+
+/** A vehicle further than this from its route's line is taken to be on a detour and gets no ETA */
+export const MAX_OFF_ROUTE_KM = 0.5;
+/** Positions older than this are dropped: the driver stopped sharing or lost signal */
+export const VEHICLE_STALE_MS = 2 * 60 * 1000;
+
+type LatLng = [number, number];
+
+/**
+ * How far along a line (km from its first point) the closest point to `p`
+ * is, and how far `p` is from it. Each segment is flattened around its own
+ * latitude, which is plenty accurate over the length of a hop.
+ */
+export function projectOntoLine(line: LatLng[], p: LatLng): { along: number; offset: number } {
+  let best = { along: 0, offset: Infinity };
+  let start = 0;
+
+  for (let i = 1; i < line.length; i++) {
+    const a = line[i - 1];
+    const b = line[i];
+    const length = haversineDistance(a, b);
+    const kx = Math.cos((a[0] * Math.PI) / 180);
+    const dx = (b[1] - a[1]) * kx;
+    const dy = b[0] - a[0];
+    const t =
+      dx === 0 && dy === 0
+        ? 0
+        : Math.min(1, Math.max(0, ((p[1] - a[1]) * kx * dx + (p[0] - a[0]) * dy) / (dx * dx + dy * dy)));
+    const closest: LatLng = [a[0] + dy * t, a[1] + (b[1] - a[1]) * t];
+    const offset = haversineDistance(closest, p);
+    if (offset < best.offset) best = { along: start + length * t, offset };
+    start += length;
+  }
+  return best;
+}
+
+/** km from the first stop to each stop of a line */
+function cumulativeKm(line: LatLng[]): number[] {
+  const km = [0];
+  for (let i = 1; i < line.length; i++) km.push(km[i - 1] + haversineDistance(line[i - 1], line[i]));
+  return km;
+}
+
+/**
+ * When a vehicle should reach stop `stopIndex` of its route, riding in the
+ * given direction, at the route's typical speed. Null when it is heading
+ * the other way, has already passed the stop, or is off the route.
+ */
+export function vehicleEta(route: Route, vehicle: VehiclePosition, stopIndex: number, forward: boolean): VehicleEta | null {
+  if (vehicle.routeId !== route.id || vehicle.forward !== forward) return null;
+
+  // measure along the direction of travel, so "ahead" is always further along
+  const coords = routeStopCoords(route);
+  const line = forward ? coords : [...coords].reverse();
+  const index = forward ? stopIndex : coords.length - 1 - stopIndex;
+  if (index < 0 || index >= line.length) return null;
+
+  const { along, offset } = projectOntoLine(line, vehicle.coords);
+  if (offset > MAX_OFF_ROUTE_KM) return null;
+
+  const distance = cumulativeKm(line)[index] - along;
+  if (distance < -0.05) return null; // gone past; allow for GPS jitter at the stop itself
+
+  const km = Math.max(0, distance);
+  return { vehicleId: vehicle.vehicleId, distance: km, minutes: (km / (route.speedKmh ?? DEFAULT_SPEED_KMH)) * 60 };
+}
+
+/** The soonest of `vehicles` to reach a stop, ignoring positions that have gone stale */
+export function nextArrival(
+  route: Route,
+  vehicles: VehiclePosition[],
+  stopIndex: number,
+  forward: boolean,
+  now = Date.now()
+): VehicleEta | null {
+  let best: VehicleEta | null = null;
+  for (const vehicle of vehicles) {
+    if (now - vehicle.reportedAt > VEHICLE_STALE_MS) continue;
+    const eta = vehicleEta(route, vehicle, stopIndex, forward);
+    if (eta && (!best || eta.minutes < best.minutes)) best = eta;
+  }
+  return best;
+}
@@ -0,0 +1,11 @@
+-- Directional routes and inbound/outbound patterns.
+-- Applies on top of the original stops, routes and route_stops tables.
+
+alter table routes
+  add column if not exists reverse_fare numeric check (reverse_fare is null or reverse_fare >= 0),
+  add column if not exists one_way boolean not null default false,
+  add column if not exists direction text check (direction is null or direction in ('outbound', 'inbound')),
+  add column if not exists pattern_id text,
+  add column if not exists via text;
+
+create index if not exists routes_pattern_id_idx on routes (pattern_id);
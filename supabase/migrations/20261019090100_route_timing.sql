@@ -0,0 +1,8 @@
+-- Travel time per route: typical speed, wait while a trotro loads at its
+-- first stop, and minutes between trotros by hour of day.
+
+alter table routes
+  add column if not exists speed_kmh numeric check (speed_kmh is null or speed_kmh >= 1),
+  add column if not exists loading_wait_min numeric check (loading_wait_min is null or loading_wait_min >= 0),
+  -- [{ "from_hour": 6, "to_hour": 10, "minutes": 5 }, ...]
+  add column if not exists headways jsonb check (headways is null or jsonb_typeof(headways) = 'array');
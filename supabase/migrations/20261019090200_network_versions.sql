@@ -0,0 +1,31 @@
+-- When each network row was last written. The app keeps using its cached
+-- network while every table's row count and newest updated_at are unchanged;
+-- the count catches deletes, which leave no updated_at behind.
+
+create or replace function set_updated_at() returns trigger
+language plpgsql as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+alter table stops add column if not exists updated_at timestamptz not null default now();
+alter table routes add column if not exists updated_at timestamptz not null default now();
+alter table route_stops add column if not exists updated_at timestamptz not null default now();
+
+create index if not exists stops_updated_at_idx on stops (updated_at desc);
+create index if not exists routes_updated_at_idx on routes (updated_at desc);
+create index if not exists route_stops_updated_at_idx on route_stops (updated_at desc);
+
+drop trigger if exists stops_updated_at on stops;
+create trigger stops_updated_at before update on stops
+  for each row execute function set_updated_at();
+
+drop trigger if exists routes_updated_at on routes;
+create trigger routes_updated_at before update on routes
+  for each row execute function set_updated_at();
+
+drop trigger if exists route_stops_updated_at on route_stops;
+create trigger route_stops_updated_at before update on route_stops
+  for each row execute function set_updated_at();
@@ -0,0 +1,21 @@
+-- Replace the intermediate stops of some routes in one transaction, so a
+-- failed write cannot leave a route with its stops deleted. Runs with the
+-- caller's rights: row level security on route_stops still applies.
+
+create or replace function replace_route_stops(route_ids text[], stop_rows jsonb)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  delete from route_stops where route_id = any (route_ids);
+
+  -- [{ "route_id": "...", "stop_id": "...", "stop_order": 1 }, ...]
+  insert into route_stops (route_id, stop_id, stop_order)
+  select r.route_id, r.stop_id, r.stop_order
+  from jsonb_to_recordset(stop_rows) as r (route_id text, stop_id text, stop_order int);
+end;
+$$;
+
+revoke execute on function replace_route_stops(text[], jsonb) from public, anon;
+grant execute on function replace_route_stops(text[], jsonb) to authenticated;
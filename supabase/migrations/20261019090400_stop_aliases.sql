@@ -0,0 +1,29 @@
+-- Other names riders use for a stop: spellings, landmarks nearby and local
+-- names. Anyone can read them; only admins and operators edit them.
+
+create table if not exists stop_aliases (
+  id bigint generated always as identity primary key,
+  stop_id text not null references stops (id) on delete cascade,
+  alias text not null check (length(trim(alias)) > 0),
+  kind text not null default 'alias' check (kind in ('alias', 'landmark', 'local')),
+  updated_at timestamptz not null default now(),
+  unique (stop_id, alias)
+);
+
+create index if not exists stop_aliases_updated_at_idx on stop_aliases (updated_at desc);
+
+drop trigger if exists stop_aliases_updated_at on stop_aliases;
+create trigger stop_aliases_updated_at before update on stop_aliases
+  for each row execute function set_updated_at();
+
+alter table stop_aliases enable row level security;
+
+drop policy if exists "stop aliases are public" on stop_aliases;
+create policy "stop aliases are public" on stop_aliases
+  for select using (true);
+
+drop policy if exists "admins edit stop aliases" on stop_aliases;
+create policy "admins edit stop aliases" on stop_aliases
+  for all to authenticated
+  using ((auth.jwt() -> 'app_metadata' ->> 'role') in ('admin', 'operator'))
+  with check ((auth.jwt() -> 'app_metadata' ->> 'role') in ('admin', 'operator'));
@@ -0,0 +1,28 @@
+-- What passengers report paying for a ride, with who paid it so their own
+-- discount and surcharges can be taken out. Anyone may report and read;
+-- nobody edits or deletes a report through the API.
+
+create table if not exists fare_reports (
+  id bigint generated always as identity primary key,
+  route_id text not null references routes (id) on delete cascade,
+  from_stop text not null,
+  to_stop text not null,
+  fare numeric not null check (fare > 0 and fare < 1000),
+  passenger text not null default 'adult' check (passenger in ('adult', 'student', 'child', 'senior')),
+  luggage boolean not null default false,
+  reported_at timestamptz not null default now()
+);
+
+create index if not exists fare_reports_reported_at_idx on fare_reports (reported_at desc);
+
+alter table fare_reports enable row level security;
+
+drop policy if exists "fare reports are public" on fare_reports;
+create policy "fare reports are public" on fare_reports
+  for select using (true);
+
+-- reports are about rides just taken, not backdated or from the future
+drop policy if exists "anyone reports a fare" on fare_reports;
+create policy "anyone reports a fare" on fare_reports
+  for insert to anon, authenticated
+  with check (reported_at between now() - interval '1 day' and now() + interval '5 minutes');
@@ -0,0 +1,35 @@
+-- Editing the network in the browser: fares per hop between consecutive
+-- stops, and row level security so that anyone can read the network but
+-- only admins and operators (app_metadata.role) can change it.
+
+alter table routes
+  -- [fare from stop 1 to 2, from 2 to 3, ...], one per hop first to last
+  add column if not exists segment_fares jsonb
+    check (segment_fares is null or jsonb_typeof(segment_fares) = 'array');
+
+create or replace function is_network_editor() returns boolean
+language sql stable as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') in ('admin', 'operator');
+$$;
+
+alter table stops enable row level security;
+alter table routes enable row level security;
+alter table route_stops enable row level security;
+
+drop policy if exists "stops are public" on stops;
+create policy "stops are public" on stops for select using (true);
+drop policy if exists "editors change stops" on stops;
+create policy "editors change stops" on stops for all to authenticated
+  using (is_network_editor()) with check (is_network_editor());
+
+drop policy if exists "routes are public" on routes;
+create policy "routes are public" on routes for select using (true);
+drop policy if exists "editors change routes" on routes;
+create policy "editors change routes" on routes for all to authenticated
+  using (is_network_editor()) with check (is_network_editor());
+
+drop policy if exists "route stops are public" on route_stops;
+create policy "route stops are public" on route_stops for select using (true);
+drop policy if exists "editors change route stops" on route_stops;
+create policy "editors change route stops" on route_stops for all to authenticated
+  using (is_network_editor()) with check (is_network_editor());
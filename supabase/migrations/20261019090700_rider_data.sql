@@ -0,0 +1,26 @@
+-- Places and trips a signed-in rider saves, one JSON document per account.
+-- Each rider reads and writes their own row only.
+
+create table if not exists rider_data (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  data jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+alter table rider_data enable row level security;
+
+drop policy if exists "riders read their own data" on rider_data;
+create policy "riders read their own data" on rider_data
+  for select to authenticated using (user_id = auth.uid());
+
+drop policy if exists "riders add their own data" on rider_data;
+create policy "riders add their own data" on rider_data
+  for insert to authenticated with check (user_id = auth.uid());
+
+drop policy if exists "riders change their own data" on rider_data;
+create policy "riders change their own data" on rider_data
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists "riders delete their own data" on rider_data;
+create policy "riders delete their own data" on rider_data
+  for delete to authenticated using (user_id = auth.uid());
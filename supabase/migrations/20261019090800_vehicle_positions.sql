@@ -0,0 +1,17 @@
+-- Live vehicle positions are Realtime broadcasts on private channels named
+-- vehicles:<route id>. Anyone may receive them; only drivers, station
+-- masters, operators and admins (app_metadata.role) may send them.
+
+drop policy if exists "anyone receives vehicle positions" on realtime.messages;
+create policy "anyone receives vehicle positions" on realtime.messages
+  for select to anon, authenticated
+  using (realtime.messages.extension = 'broadcast' and realtime.topic() like 'vehicles:%');
+
+drop policy if exists "crews send vehicle positions" on realtime.messages;
+create policy "crews send vehicle positions" on realtime.messages
+  for insert to authenticated
+  with check (
+    realtime.messages.extension = 'broadcast'
+    and realtime.topic() like 'vehicles:%'
+    and coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') in ('driver', 'station_master', 'operator', 'admin')
+  );
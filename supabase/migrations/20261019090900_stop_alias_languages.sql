@@ -0,0 +1,7 @@
+-- Local-language stop names: a "local" alias says which language it is in,
+-- so riders using that language see it in place of the usual name.
+
+alter table stop_aliases
+  add column if not exists language text check (language is null or language in ('en', 'tw', 'ga', 'ee'));
+
+create index if not exists stop_aliases_language_idx on stop_aliases (language) where language is not null;
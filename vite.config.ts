@@ -1,7 +1,15 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
   base: '/Ghana-Trotro-Transit-Passenger/',
+  test: {
+    // modules that create the Supabase client need a URL; tests never reach it
+    env: {
+      VITE_SUPABASE_URL: 'http://localhost:54321',
+      VITE_SUPABASE_ANON_KEY: 'test',
+    },
+  },
 })